@@ -8,6 +8,7 @@ import { StatusBar } from "expo-status-bar";
 
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "@/lib/query-client";
+import { migrateSecureStorage } from "@/lib/secure-storage";
 
 import RootStackNavigator, { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
@@ -16,6 +17,11 @@ export default function App() {
   const navigationRef = useRef<NavigationContainerRef<RootStackParamList>>(null);
   const appState = useRef(AppState.currentState);
 
+  // Bring stored settings up to date before the first screen reads them
+  useEffect(() => {
+    migrateSecureStorage();
+  }, []);
+
   useEffect(() => {
     const subscription = AppState.addEventListener("change", handleAppStateChange);
     return () => subscription.remove();
@@ -32,7 +38,8 @@ export default function App() {
       // Navigate back to calculator to lock the app
       if (navigationRef.current) {
         const state = navigationRef.current.getRootState();
-        if (state?.routes[state.index]?.name === "Chat") {
+        const route = state?.routes[state.index]?.name;
+        if (route === "Chat" || route === "Settings") {
           navigationRef.current.navigate("Calculator");
         }
       }
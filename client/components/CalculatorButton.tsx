@@ -0,0 +1,213 @@
+import React, { useMemo } from "react";
+import { Text, StyleSheet, Pressable, useWindowDimensions } from "react-native";
+import * as Haptics from "expo-haptics";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from "react-native-reanimated";
+
+import { CalculatorColors, Typography } from "@/constants/theme";
+import { useCalculatorTheme } from "@/hooks/useCalculatorTheme";
+
+export const BUTTON_MARGIN = 8;
+// Horizontal gap between main keys in portrait
+const BUTTON_GAP = 12;
+const KEYPAD_PADDING = 12;
+// Keys stop growing here, so tablets and desktop windows keep a phone-sized pad
+const MAX_BUTTON_SIZE = 96;
+const COMPACT_BUTTON_HEIGHT = 40;
+// Share of the window height the main keys may fill; the display gets the rest
+const PORTRAIT_KEYPAD_SHARE = 0.55;
+const LANDSCAPE_KEYPAD_SHARE = 0.7;
+const TOOLBAR_HEIGHT = 40;
+const KEYPAD_ROWS = 5;
+
+export interface KeySize {
+  width: number;
+  height: number;
+}
+
+export interface KeypadLayout {
+  isLandscape: boolean;
+  key: KeySize;
+  wideKeyWidth: number;
+  compactKey: KeySize;
+  // Width of the four-column main keypad
+  keypadWidth: number;
+  // Width of the five-column scientific or programmer panel
+  panelWidth: number;
+}
+
+// ============================================
+// KEYPAD LAYOUT - Key sizes for the current window
+// Portrait stacks the panel above square keys; landscape puts it
+// beside the keypad and flattens the keys to fit the height
+// ============================================
+export function computeKeypadLayout(
+  width: number,
+  height: number,
+): KeypadLayout {
+  if (width > height) {
+    // Nine equal columns: five panel keys, then the four main ones
+    const column = Math.min(
+      (width - KEYPAD_PADDING * 2 - BUTTON_MARGIN * 8) / 9,
+      MAX_BUTTON_SIZE * 1.5,
+    );
+    const rowHeight = Math.min(
+      (height * LANDSCAPE_KEYPAD_SHARE -
+        TOOLBAR_HEIGHT -
+        BUTTON_MARGIN * KEYPAD_ROWS) /
+        KEYPAD_ROWS,
+      MAX_BUTTON_SIZE,
+    );
+    return {
+      isLandscape: true,
+      key: { width: column, height: rowHeight },
+      wideKeyWidth: column * 2 + BUTTON_MARGIN,
+      compactKey: {
+        width: column,
+        height: Math.min(COMPACT_BUTTON_HEIGHT, rowHeight),
+      },
+      keypadWidth: column * 4 + BUTTON_MARGIN * 3,
+      panelWidth: column * 5 + BUTTON_MARGIN * 4,
+    };
+  }
+
+  const size = Math.min(
+    (width - KEYPAD_PADDING * 2 - BUTTON_GAP * 3) / 4,
+    (height * PORTRAIT_KEYPAD_SHARE - BUTTON_MARGIN * (KEYPAD_ROWS - 1)) /
+      KEYPAD_ROWS,
+    MAX_BUTTON_SIZE,
+  );
+  const keypadWidth = size * 4 + BUTTON_GAP * 3;
+  return {
+    isLandscape: false,
+    key: { width: size, height: size },
+    wideKeyWidth: size * 2 + BUTTON_GAP,
+    // Scientific keys fit five per row above the main keypad
+    compactKey: {
+      width: (keypadWidth - BUTTON_MARGIN * 4) / 5,
+      height: COMPACT_BUTTON_HEIGHT,
+    },
+    keypadWidth,
+    panelWidth: keypadWidth,
+  };
+}
+
+// Recomputed on rotation, split-screen and window resizes
+export function useKeypadLayout(): KeypadLayout {
+  const { width, height } = useWindowDimensions();
+  return useMemo(() => computeKeypadLayout(width, height), [width, height]);
+}
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+interface CalculatorButtonProps {
+  label: string;
+  onPress: () => void;
+  isOperator?: boolean;
+  // AC, +/-, % and the like, which some skins tint apart from the digits
+  isFunction?: boolean;
+  isEquals?: boolean;
+  isWide?: boolean;
+  isCompact?: boolean;
+  isActive?: boolean;
+  isDisabled?: boolean;
+  testID?: string;
+}
+
+export function CalculatorButton({
+  label,
+  onPress,
+  isOperator = false,
+  isFunction = false,
+  isEquals = false,
+  isWide = false,
+  isCompact = false,
+  isActive = false,
+  isDisabled = false,
+  testID,
+}: CalculatorButtonProps) {
+  const { skin, colors } = useCalculatorTheme();
+  const layout = useKeypadLayout();
+  const scale = useSharedValue(1);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+    opacity: scale.value === 1 ? 1 : CalculatorColors.buttonPress,
+  }));
+
+  const handlePressIn = () => {
+    scale.value = withSpring(0.95, { damping: 15, stiffness: 300 });
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handlePressOut = () => {
+    scale.value = withSpring(1, { damping: 15, stiffness: 300 });
+  };
+
+  // The most specific role wins; an active toggle looks like =
+  const [backgroundColor, color] =
+    isActive || isEquals
+      ? [colors.equalsButton, colors.equalsText]
+      : isCompact
+        ? [colors.panelButton, colors.panelText]
+        : isOperator
+          ? [colors.operatorButton, colors.operatorText]
+          : isFunction
+            ? [colors.functionButton, colors.functionText]
+            : [colors.numberButton, colors.numberText];
+  const size = isCompact ? layout.compactKey : layout.key;
+
+  return (
+    <AnimatedPressable
+      testID={testID}
+      onPress={onPress}
+      onPressIn={handlePressIn}
+      onPressOut={handlePressOut}
+      disabled={isDisabled}
+      style={[
+        styles.button,
+        {
+          width: isWide ? layout.wideKeyWidth : size.width,
+          height: size.height,
+          backgroundColor,
+          borderRadius: size.height * skin.keyRoundness,
+        },
+        animatedStyle,
+        isDisabled && styles.disabledButton,
+      ]}
+    >
+      <Text
+        style={[
+          styles.buttonText,
+          { color, fontWeight: skin.keyFontWeight },
+          (isOperator || isEquals) && styles.operatorButtonText,
+          isCompact && styles.compactButtonText,
+        ]}
+      >
+        {label}
+      </Text>
+    </AnimatedPressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  disabledButton: {
+    opacity: 0.3,
+  },
+  buttonText: {
+    fontSize: Typography.calculatorButton.fontSize,
+  },
+  operatorButtonText: {
+    fontSize: 28,
+  },
+  compactButtonText: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Pressable,
+  Modal,
+  Switch,
+} from "react-native";
+
+import { BorderRadius, ChatColors, Spacing } from "@/constants/theme";
+import {
+  DuressAction,
+  PairingData,
+  SecurePreferences,
+} from "@/lib/secure-storage";
+import {
+  MAX_SEQUENCE_LENGTH,
+  isValidSequence,
+  matchesUnlockSecret,
+} from "@/lib/unlock-secret";
+
+export interface DuressSettings {
+  // Null keeps the current sequence
+  sequence: string | null;
+  action: DuressAction;
+  alertsPartner: boolean;
+}
+
+interface DuressCodeModalProps {
+  visible: boolean;
+  pairing: PairingData;
+  preferences: SecurePreferences;
+  onSave: (settings: DuressSettings | null) => void;
+  onClose: () => void;
+}
+
+const ACTIONS: { action: DuressAction; label: string }[] = [
+  { action: "decoy", label: "Open a decoy chat" },
+  { action: "wipe", label: "Erase this chat" },
+];
+
+// ============================================
+// DURESS CODE - Set the second sequence and what it does
+// Only its hash is stored, so an existing one can't be shown; leaving
+// the field empty keeps it.
+// ============================================
+export function DuressCodeModal({
+  visible,
+  pairing,
+  preferences,
+  onSave,
+  onClose,
+}: DuressCodeModalProps) {
+  const [sequence, setSequence] = useState("");
+  const [action, setAction] = useState<DuressAction>("decoy");
+  const [alertsPartner, setAlertsPartner] = useState(false);
+  const [matchesUnlock, setMatchesUnlock] = useState(false);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setSequence("");
+    setAction(preferences.duressAction);
+    setAlertsPartner(preferences.duressAlertsPartner);
+    setMatchesUnlock(false);
+  }, [visible, preferences]);
+
+  const keepsSequence = sequence.length === 0 && pairing.duress !== undefined;
+  const error = keepsSequence
+    ? null
+    : !isValidSequence(sequence)
+      ? "Use 4 to 32 digits, or a sum such as 7×7, with no number starting in 0"
+      : matchesUnlock
+        ? "Must differ from your unlock sequence"
+        : null;
+
+  const handleSave = async () => {
+    if (keepsSequence) {
+      onSave({ sequence: null, action, alertsPartner });
+      return;
+    }
+    if (await matchesUnlockSecret(pairing.unlock, sequence)) {
+      setMatchesUnlock(true);
+      return;
+    }
+    onSave({ sequence, action, alertsPartner });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Duress Code</Text>
+          <Text style={styles.description}>
+            Entered on the calculator instead of your unlock sequence, it looks
+            like an ordinary unlock or calculation to anyone watching.
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={sequence}
+            onChangeText={(text) => {
+              setSequence(text);
+              setMatchesUnlock(false);
+            }}
+            keyboardType="numbers-and-punctuation"
+            maxLength={MAX_SEQUENCE_LENGTH}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+            placeholder={
+              pairing.duress ? "Keep current sequence" : "Sequence, e.g. 2580"
+            }
+            placeholderTextColor={ChatColors.textSecondary}
+            testID="input-duress-code"
+          />
+          {sequence.length > 0 && error ? (
+            <Text style={styles.error}>{error}</Text>
+          ) : null}
+
+          {ACTIONS.map((option) => (
+            <Pressable
+              key={option.action}
+              style={styles.option}
+              onPress={() => setAction(option.action)}
+              testID={`option-duress-${option.action}`}
+            >
+              <View
+                style={[
+                  styles.radio,
+                  action === option.action && styles.radioSelected,
+                ]}
+              />
+              <Text style={styles.optionText}>{option.label}</Text>
+            </Pressable>
+          ))}
+
+          <View style={styles.option}>
+            <Text style={[styles.optionText, styles.switchLabel]}>
+              Alert my contact
+            </Text>
+            <Switch
+              value={alertsPartner}
+              onValueChange={setAlertsPartner}
+              testID="switch-duress-alert"
+            />
+          </View>
+
+          <View style={styles.buttons}>
+            {pairing.duress ? (
+              <Pressable
+                style={styles.button}
+                onPress={() => onSave(null)}
+                testID="button-duress-remove"
+              >
+                <Text style={[styles.buttonText, styles.removeText]}>
+                  Remove
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              style={styles.button}
+              onPress={onClose}
+              testID="button-duress-cancel"
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={styles.button}
+              onPress={handleSave}
+              disabled={error !== null}
+              testID="button-duress-save"
+            >
+              <Text
+                style={[
+                  styles.buttonText,
+                  error !== null && styles.disabledText,
+                ]}
+              >
+                Save
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    padding: Spacing["2xl"],
+  },
+  content: {
+    backgroundColor: ChatColors.headerBackground,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  title: {
+    color: ChatColors.textPrimary,
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  description: {
+    color: ChatColors.textSecondary,
+    fontSize: 14,
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    backgroundColor: ChatColors.inputFieldBackground,
+    color: ChatColors.textPrimary,
+    borderRadius: BorderRadius.xs,
+    height: Spacing.inputHeight,
+    paddingHorizontal: Spacing.md,
+    fontSize: 18,
+    letterSpacing: 4,
+  },
+  error: {
+    color: "#FF453A",
+    fontSize: 13,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: ChatColors.textSecondary,
+  },
+  radioSelected: {
+    borderColor: ChatColors.sendButton,
+    backgroundColor: ChatColors.sendButton,
+  },
+  optionText: {
+    color: ChatColors.textPrimary,
+    fontSize: 16,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  buttons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  button: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  buttonText: {
+    color: ChatColors.readReceiptActive,
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  removeText: {
+    color: "#FF453A",
+  },
+  disabledText: {
+    color: ChatColors.textSecondary,
+  },
+});
@@ -0,0 +1,176 @@
+import React from "react";
+import { View, Text, StyleSheet, Pressable, FlatList } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { SlideInUp, SlideOutUp } from "react-native-reanimated";
+
+import { Spacing } from "@/constants/theme";
+import { HistoryEntry } from "@/lib/calculator-history";
+import { localizeExpression } from "@/lib/locale-format";
+import { useCalculatorTheme } from "@/hooks/useCalculatorTheme";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+interface HistoryDrawerProps {
+  entries: HistoryEntry[];
+  onSelectExpression: (expression: string) => void;
+  onSelectResult: (result: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// ============================================
+// HISTORY ENTRY - Tap either side to reuse it
+// ============================================
+function HistoryRow({
+  entry,
+  onSelectExpression,
+  onSelectResult,
+}: {
+  entry: HistoryEntry;
+  onSelectExpression: (expression: string) => void;
+  onSelectResult: (result: string) => void;
+}) {
+  const numberLocale = useNumberLocale();
+  const { colors } = useCalculatorTheme();
+  const textColor = { color: colors.displayText };
+
+  return (
+    <View style={styles.entry}>
+      <Pressable
+        onPress={() => onSelectExpression(entry.expression)}
+        testID={`history-expression-${entry.id}`}
+      >
+        <Text style={[styles.expressionText, textColor]} numberOfLines={1}>
+          {localizeExpression(entry.expression, numberLocale).text}
+        </Text>
+      </Pressable>
+      <Pressable
+        onPress={() => onSelectResult(entry.result)}
+        testID={`history-result-${entry.id}`}
+      >
+        <Text style={[styles.resultText, textColor]} numberOfLines={1}>
+          = {localizeExpression(entry.result, numberLocale).text}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
+
+export function HistoryDrawer({
+  entries,
+  onSelectExpression,
+  onSelectResult,
+  onClear,
+  onClose,
+}: HistoryDrawerProps) {
+  const { colors } = useCalculatorTheme();
+
+  return (
+    <Animated.View
+      entering={SlideInUp.duration(250)}
+      exiting={SlideOutUp.duration(200)}
+      style={[styles.drawer, { backgroundColor: colors.background }]}
+      testID="history-drawer"
+    >
+      <View style={styles.header}>
+        <Pressable
+          onPress={onClear}
+          disabled={entries.length === 0}
+          style={styles.headerButton}
+          testID="button-history-clear"
+        >
+          <Text
+            style={[
+              styles.headerButtonText,
+              { color: colors.accent },
+              entries.length === 0 && styles.disabledText,
+            ]}
+          >
+            Clear
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={onClose}
+          style={styles.headerButton}
+          testID="button-history-close"
+        >
+          <Feather name="chevron-up" size={24} color={colors.displayText} />
+        </Pressable>
+      </View>
+
+      {entries.length === 0 ? (
+        <View style={styles.emptyList}>
+          <Text style={[styles.emptyText, { color: colors.displayText }]}>
+            No history yet
+          </Text>
+        </View>
+      ) : (
+        // Inverted so the newest entry sits closest to the display
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <HistoryRow
+              entry={item}
+              onSelectExpression={onSelectExpression}
+              onSelectResult={onSelectResult}
+            />
+          )}
+          inverted
+          testID="history-list"
+        />
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  drawer: {
+    ...StyleSheet.absoluteFillObject,
+    bottom: "35%",
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+    paddingHorizontal: Spacing["2xl"],
+    paddingTop: Spacing["4xl"],
+    paddingBottom: Spacing.lg,
+    zIndex: 10,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  headerButton: {
+    padding: Spacing.sm,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  entry: {
+    alignItems: "flex-end",
+    paddingVertical: Spacing.md,
+  },
+  expressionText: {
+    opacity: 0.6,
+    fontSize: 20,
+    fontWeight: "300",
+  },
+  resultText: {
+    fontSize: 28,
+    fontWeight: "300",
+  },
+  emptyList: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    opacity: 0.6,
+    fontSize: 16,
+  },
+});
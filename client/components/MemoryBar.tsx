@@ -0,0 +1,97 @@
+import React from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+
+import { useCalculatorTheme } from "@/hooks/useCalculatorTheme";
+
+interface MemoryBarProps {
+  hasMemory: boolean;
+  onClear: () => void;
+  onRecall: () => void;
+  onAdd: () => void;
+  onSubtract: () => void;
+}
+
+function MemoryKey({
+  label,
+  onPress,
+  disabled = false,
+  testID,
+}: {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  testID: string;
+}) {
+  const { colors } = useCalculatorTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={styles.key}
+      testID={testID}
+    >
+      <Text
+        style={[
+          styles.keyText,
+          { color: colors.displayText },
+          disabled && styles.disabledText,
+        ]}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+// MC and MR are inactive while the register is empty
+export function MemoryBar({
+  hasMemory,
+  onClear,
+  onRecall,
+  onAdd,
+  onSubtract,
+}: MemoryBarProps) {
+  return (
+    <View style={styles.bar}>
+      <MemoryKey
+        label="MC"
+        onPress={onClear}
+        disabled={!hasMemory}
+        testID="button-memory-clear"
+      />
+      <MemoryKey
+        label="MR"
+        onPress={onRecall}
+        disabled={!hasMemory}
+        testID="button-memory-recall"
+      />
+      <MemoryKey label="M+" onPress={onAdd} testID="button-memory-add" />
+      <MemoryKey
+        label="M−"
+        onPress={onSubtract}
+        testID="button-memory-subtract"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "space-evenly",
+    alignItems: "center",
+  },
+  key: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  keyText: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  disabledText: {
+    opacity: 0.35,
+  },
+});
@@ -0,0 +1,102 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Modal,
+  TouchableWithoutFeedback,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { BorderRadius, Spacing } from "@/constants/theme";
+import { useCalculatorTheme } from "@/hooks/useCalculatorTheme";
+
+export interface ModeMenuItem {
+  label: string;
+  icon: keyof typeof Feather.glyphMap;
+  onPress: () => void;
+  testID: string;
+}
+
+interface ModeMenuProps {
+  visible: boolean;
+  items: ModeMenuItem[];
+  onClose: () => void;
+}
+
+// ============================================
+// MODE MENU - Overflow menu for the calculator's extra modes
+// ============================================
+export function ModeMenu({ visible, items, onClose }: ModeMenuProps) {
+  const { colors } = useCalculatorTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <View
+            style={[styles.content, { backgroundColor: colors.numberButton }]}
+          >
+            {items.map((item) => (
+              <Pressable
+                key={item.testID}
+                style={styles.item}
+                onPress={() => {
+                  onClose();
+                  item.onPress();
+                }}
+                testID={item.testID}
+              >
+                <Feather
+                  name={item.icon}
+                  size={20}
+                  color={colors.displayText}
+                />
+                <Text style={[styles.itemText, { color: colors.displayText }]}>
+                  {item.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "flex-start",
+    alignItems: "flex-end",
+    paddingTop: 60,
+    paddingRight: Spacing.lg,
+  },
+  content: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xs,
+    minWidth: 180,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  itemText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
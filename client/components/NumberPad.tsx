@@ -0,0 +1,113 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import {
+  CalculatorButton,
+  BUTTON_MARGIN,
+  useKeypadLayout,
+} from "@/components/CalculatorButton";
+
+interface NumberPadProps {
+  decimalLabel: string;
+  // Label of the key that commits the field, e.g. "→" or "Add"
+  enterLabel: string;
+  onDigit: (digit: string) => void;
+  onDecimal: () => void;
+  onOperator: (operator: string) => void;
+  onBackspace: () => void;
+  onClear: () => void;
+  onEnter: () => void;
+}
+
+// ============================================
+// NUMBER PAD - Keypad for modes that fill in fields
+// Entries are expressions, so 1÷3 or -2 work anywhere
+// ============================================
+export function NumberPad({
+  decimalLabel,
+  enterLabel,
+  onDigit,
+  onDecimal,
+  onOperator,
+  onBackspace,
+  onClear,
+  onEnter,
+}: NumberPadProps) {
+  const { keypadWidth } = useKeypadLayout();
+  const digitButton = (digit: string) => (
+    <CalculatorButton
+      label={digit}
+      onPress={() => onDigit(digit)}
+      testID={`button-${digit}`}
+    />
+  );
+
+  return (
+    <View style={[styles.pad, { width: keypadWidth }]}>
+      <View style={styles.row}>
+        {digitButton("7")}
+        {digitButton("8")}
+        {digitButton("9")}
+        <CalculatorButton
+          label="⌫"
+          onPress={onBackspace}
+          isOperator
+          testID="button-backspace"
+        />
+      </View>
+      <View style={styles.row}>
+        {digitButton("4")}
+        {digitButton("5")}
+        {digitButton("6")}
+        <CalculatorButton
+          label="AC"
+          onPress={onClear}
+          isOperator
+          testID="button-clear"
+        />
+      </View>
+      <View style={styles.row}>
+        {digitButton("1")}
+        {digitButton("2")}
+        {digitButton("3")}
+        <CalculatorButton
+          label="-"
+          onPress={() => onOperator("-")}
+          isOperator
+          testID="button-subtract"
+        />
+      </View>
+      <View style={styles.row}>
+        {digitButton("0")}
+        <CalculatorButton
+          label={decimalLabel}
+          onPress={onDecimal}
+          testID="button-decimal"
+        />
+        <CalculatorButton
+          label="÷"
+          onPress={() => onOperator("÷")}
+          isOperator
+          testID="button-divide"
+        />
+        <CalculatorButton
+          label={enterLabel}
+          onPress={onEnter}
+          isOperator
+          testID="button-enter"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    alignSelf: "center",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: BUTTON_MARGIN,
+  },
+});
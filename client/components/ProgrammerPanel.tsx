@@ -0,0 +1,226 @@
+import React from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import Animated, { FadeInDown, FadeOutDown } from "react-native-reanimated";
+
+import {
+  CalculatorButton,
+  BUTTON_MARGIN,
+  useKeypadLayout,
+} from "@/components/CalculatorButton";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import { useCalculatorTheme } from "@/hooks/useCalculatorTheme";
+import { Decimal } from "@/lib/decimal";
+import {
+  BASE_LABELS,
+  IntegerFormat,
+  NUMBER_BASES,
+  NumberBase,
+  WORD_SIZES,
+  WordSize,
+  formatNumber,
+} from "@/lib/number-format";
+import { isDigitForBase } from "@/lib/programmer-engine";
+
+interface ProgrammerKey {
+  label: string;
+  // Text inserted into the expression
+  insert: string;
+  testID: string;
+}
+
+function digitKey(digit: string): ProgrammerKey {
+  return {
+    label: digit,
+    insert: digit,
+    testID: `button-hex-${digit.toLowerCase()}`,
+  };
+}
+
+// A–F are disabled outside HEX
+const KEY_ROWS: ProgrammerKey[][] = [
+  ["A", "B", "C", "D", "E"].map(digitKey),
+  [
+    digitKey("F"),
+    { label: "(", insert: "(", testID: "button-open-paren" },
+    { label: ")", insert: ")", testID: "button-close-paren" },
+    { label: "<<", insert: " << ", testID: "button-shift-left" },
+    { label: ">>", insert: " >> ", testID: "button-shift-right" },
+  ],
+  [
+    { label: "AND", insert: " AND ", testID: "button-and" },
+    { label: "OR", insert: " OR ", testID: "button-or" },
+    { label: "XOR", insert: " XOR ", testID: "button-xor" },
+    { label: "NOT", insert: "NOT ", testID: "button-not" },
+    { label: "MOD", insert: " MOD ", testID: "button-mod" },
+  ],
+];
+
+interface ProgrammerPanelProps {
+  format: IntegerFormat;
+  // Current value, shown in every base
+  value: Decimal | null;
+  onChangeBase: (base: NumberBase) => void;
+  onChangeWordSize: (wordSize: WordSize) => void;
+  onToggleSigned: () => void;
+  onInsert: (text: string) => void;
+}
+
+// ============================================
+// PROGRAMMER PANEL - Base readout, word size and bitwise keys
+// Tap a base in the readout to switch to it
+// ============================================
+export function ProgrammerPanel({
+  format,
+  value,
+  onChangeBase,
+  onChangeWordSize,
+  onToggleSigned,
+  onInsert,
+}: ProgrammerPanelProps) {
+  const { colors } = useCalculatorTheme();
+  const { panelWidth } = useKeypadLayout();
+  const textColor = { color: colors.displayText };
+
+  return (
+    <Animated.View
+      entering={FadeInDown.duration(200)}
+      exiting={FadeOutDown.duration(150)}
+      style={[styles.panel, { width: panelWidth }]}
+      testID="programmer-panel"
+    >
+      {NUMBER_BASES.map((base) => (
+        <Pressable
+          key={base}
+          onPress={() => onChangeBase(base)}
+          style={styles.readoutRow}
+          testID={`base-${BASE_LABELS[base].toLowerCase()}`}
+        >
+          <Text
+            style={[
+              styles.readoutLabel,
+              textColor,
+              base === format.base && [
+                styles.activeText,
+                { color: colors.accent },
+              ],
+            ]}
+          >
+            {BASE_LABELS[base]}
+          </Text>
+          <Text
+            style={[styles.readoutValue, textColor]}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            {value !== null
+              ? formatNumber(value, { mode: "programmer", ...format, base })
+              : ""}
+          </Text>
+        </Pressable>
+      ))}
+
+      <View style={styles.chips}>
+        {WORD_SIZES.map((wordSize) => (
+          <Pressable
+            key={wordSize}
+            onPress={() => onChangeWordSize(wordSize)}
+            style={[
+              styles.chip,
+              { backgroundColor: colors.panelButton },
+              wordSize === format.wordSize && {
+                backgroundColor: colors.equalsButton,
+              },
+            ]}
+            testID={`word-size-${wordSize}`}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                {
+                  color:
+                    wordSize === format.wordSize
+                      ? colors.equalsText
+                      : colors.panelText,
+                },
+              ]}
+            >
+              {wordSize}-bit
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          onPress={onToggleSigned}
+          style={[styles.chip, { backgroundColor: colors.panelButton }]}
+          testID="button-signed"
+        >
+          <Text style={[styles.chipText, { color: colors.panelText }]}>
+            {format.signed ? "Signed" : "Unsigned"}
+          </Text>
+        </Pressable>
+      </View>
+
+      {KEY_ROWS.map((row, index) => (
+        <View key={index} style={styles.row}>
+          {row.map((key) => (
+            <CalculatorButton
+              key={key.testID}
+              label={key.label}
+              onPress={() => onInsert(key.insert)}
+              isCompact
+              isDisabled={
+                /^[A-F]$/.test(key.insert) &&
+                !isDigitForBase(key.insert, format.base)
+              }
+              testID={key.testID}
+            />
+          ))}
+        </View>
+      ))}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginBottom: BUTTON_MARGIN,
+  },
+  readoutRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.md,
+  },
+  readoutLabel: {
+    width: 36,
+    opacity: 0.6,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  activeText: {
+    opacity: 1,
+  },
+  readoutValue: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  chips: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginVertical: BUTTON_MARGIN,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: BUTTON_MARGIN,
+  },
+});
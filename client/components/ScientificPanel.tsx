@@ -0,0 +1,148 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import Animated, { FadeInDown, FadeOutDown } from "react-native-reanimated";
+
+import {
+  CalculatorButton,
+  BUTTON_MARGIN,
+  useKeypadLayout,
+} from "@/components/CalculatorButton";
+import { AngleMode } from "@/lib/calculator-engine";
+
+interface ScientificKey {
+  label: string;
+  // Text inserted into the expression
+  insert: string;
+  testID: string;
+}
+
+// INV swaps each key for its inverse, like stock calculators
+const FUNCTION_KEYS: [ScientificKey, ScientificKey][] = [
+  [
+    { label: "sin", insert: "sin(", testID: "button-sin" },
+    { label: "sin⁻¹", insert: "sin⁻¹(", testID: "button-asin" },
+  ],
+  [
+    { label: "cos", insert: "cos(", testID: "button-cos" },
+    { label: "cos⁻¹", insert: "cos⁻¹(", testID: "button-acos" },
+  ],
+  [
+    { label: "tan", insert: "tan(", testID: "button-tan" },
+    { label: "tan⁻¹", insert: "tan⁻¹(", testID: "button-atan" },
+  ],
+  [
+    { label: "ln", insert: "ln(", testID: "button-ln" },
+    { label: "eˣ", insert: "e^(", testID: "button-exp" },
+  ],
+  [
+    { label: "log", insert: "log(", testID: "button-log" },
+    { label: "10ˣ", insert: "10^(", testID: "button-pow10" },
+  ],
+];
+
+const CONSTANT_KEYS: ScientificKey[] = [
+  { label: "π", insert: "π", testID: "button-pi" },
+  { label: "e", insert: "e", testID: "button-e" },
+  { label: "√", insert: "√(", testID: "button-sqrt" },
+  { label: "xʸ", insert: "^", testID: "button-power" },
+  { label: "x²", insert: "^2", testID: "button-square" },
+];
+
+interface ScientificPanelProps {
+  angleMode: AngleMode;
+  isInverse: boolean;
+  onToggleAngleMode: () => void;
+  onToggleInverse: () => void;
+  onInsert: (text: string) => void;
+}
+
+export function ScientificPanel({
+  angleMode,
+  isInverse,
+  onToggleAngleMode,
+  onToggleInverse,
+  onInsert,
+}: ScientificPanelProps) {
+  const { panelWidth } = useKeypadLayout();
+
+  return (
+    <Animated.View
+      entering={FadeInDown.duration(200)}
+      exiting={FadeOutDown.duration(150)}
+      style={[styles.panel, { width: panelWidth }]}
+      testID="scientific-panel"
+    >
+      <View style={styles.row}>
+        <CalculatorButton
+          label="INV"
+          onPress={onToggleInverse}
+          isCompact
+          isActive={isInverse}
+          testID="button-inverse"
+        />
+        <CalculatorButton
+          label={angleMode === "deg" ? "RAD" : "DEG"}
+          onPress={onToggleAngleMode}
+          isCompact
+          testID="button-angle-mode"
+        />
+        <CalculatorButton
+          label="("
+          onPress={() => onInsert("(")}
+          isCompact
+          testID="button-open-paren"
+        />
+        <CalculatorButton
+          label=")"
+          onPress={() => onInsert(")")}
+          isCompact
+          testID="button-close-paren"
+        />
+        <CalculatorButton
+          label="x!"
+          onPress={() => onInsert("!")}
+          isCompact
+          testID="button-factorial"
+        />
+      </View>
+
+      <View style={styles.row}>
+        {FUNCTION_KEYS.map(([normal, inverse]) => {
+          const key = isInverse ? inverse : normal;
+          return (
+            <CalculatorButton
+              key={normal.testID}
+              label={key.label}
+              onPress={() => onInsert(key.insert)}
+              isCompact
+              testID={key.testID}
+            />
+          );
+        })}
+      </View>
+
+      <View style={styles.row}>
+        {CONSTANT_KEYS.map((key) => (
+          <CalculatorButton
+            key={key.testID}
+            label={key.label}
+            onPress={() => onInsert(key.insert)}
+            isCompact
+            testID={key.testID}
+          />
+        ))}
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginBottom: BUTTON_MARGIN,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: BUTTON_MARGIN,
+  },
+});
@@ -5,10 +5,262 @@ export const CalculatorColors = {
   displayText: "#FFFFFF",
   numberButton: "#2D2D2D",
   operatorButton: "#FF9F0A",
+  functionButton: "#262626",
   buttonText: "#FFFFFF",
   buttonPress: 0.8,
 };
 
+// ============================================
+// CALCULATOR SKINS - Look-alikes of the stock calculators, so the
+// app passes for whichever one the phone ships with. Each skin has a
+// dark and a light palette; the system color scheme picks one.
+// ============================================
+
+export type SkinId = "classic" | "pixel" | "oneui" | "ios";
+
+export interface SkinPalette {
+  background: string;
+  displayText: string;
+  numberButton: string;
+  numberText: string;
+  // AC, +/-, %, ( ) and ⌫ on the main keypad
+  functionButton: string;
+  functionText: string;
+  operatorButton: string;
+  operatorText: string;
+  equalsButton: string;
+  equalsText: string;
+  // Small scientific and programmer keys
+  panelButton: string;
+  panelText: string;
+  // Active toggles, the cursor and highlighted labels
+  accent: string;
+}
+
+export type KeypadKey =
+  | "clear"
+  | "sign"
+  | "percent"
+  | "parentheses"
+  | "backspace"
+  | "divide"
+  | "multiply"
+  | "subtract"
+  | "add"
+  | "equals"
+  | "decimal"
+  | "0"
+  | "1"
+  | "2"
+  | "3"
+  | "4"
+  | "5"
+  | "6"
+  | "7"
+  | "8"
+  | "9";
+
+export interface CalculatorSkin {
+  id: SkinId;
+  name: string;
+  dark: SkinPalette;
+  light: SkinPalette;
+  // Corner radius as a share of the key height; 0.5 is a circle
+  keyRoundness: number;
+  keyFontWeight: "300" | "400" | "500";
+  displayFontWeight: "200" | "300" | "400";
+  // Rows of the main keypad; a row of three has a double-width first key
+  keypad: KeypadKey[][];
+}
+
+const DIGIT_ROWS: KeypadKey[][] = [
+  ["7", "8", "9", "multiply"],
+  ["4", "5", "6", "subtract"],
+  ["1", "2", "3", "add"],
+];
+
+export const CALCULATOR_SKINS: Record<SkinId, CalculatorSkin> = {
+  classic: {
+    id: "classic",
+    name: "Classic",
+    dark: {
+      background: "#1C1C1C",
+      displayText: "#FFFFFF",
+      numberButton: "#2D2D2D",
+      numberText: "#FFFFFF",
+      functionButton: "#2D2D2D",
+      functionText: "#FFFFFF",
+      operatorButton: "#FF9F0A",
+      operatorText: "#FFFFFF",
+      equalsButton: "#FF9F0A",
+      equalsText: "#FFFFFF",
+      panelButton: "#262626",
+      panelText: "#FFFFFF",
+      accent: "#FF9F0A",
+    },
+    light: {
+      background: "#F2F2F2",
+      displayText: "#1C1C1C",
+      numberButton: "#FFFFFF",
+      numberText: "#1C1C1C",
+      functionButton: "#FFFFFF",
+      functionText: "#1C1C1C",
+      operatorButton: "#FF9F0A",
+      operatorText: "#FFFFFF",
+      equalsButton: "#FF9F0A",
+      equalsText: "#FFFFFF",
+      panelButton: "#E4E4E4",
+      panelText: "#1C1C1C",
+      accent: "#FF9F0A",
+    },
+    keyRoundness: 0.5,
+    keyFontWeight: "500",
+    displayFontWeight: "300",
+    keypad: [
+      ["clear", "sign", "percent", "divide"],
+      ...DIGIT_ROWS,
+      ["0", "decimal", "equals"],
+    ],
+  },
+  pixel: {
+    id: "pixel",
+    name: "Pixel",
+    dark: {
+      background: "#131316",
+      displayText: "#E4E2E6",
+      numberButton: "#2B2C31",
+      numberText: "#E4E2E6",
+      functionButton: "#3F4759",
+      functionText: "#DAE2F9",
+      operatorButton: "#004A77",
+      operatorText: "#C2E7FF",
+      equalsButton: "#A8C7FA",
+      equalsText: "#062E6F",
+      panelButton: "#1F2024",
+      panelText: "#C5C6D0",
+      accent: "#A8C7FA",
+    },
+    light: {
+      background: "#F8F9FF",
+      displayText: "#1A1C1E",
+      numberButton: "#E3E5EC",
+      numberText: "#1A1C1E",
+      functionButton: "#D6E3FF",
+      functionText: "#0F1C2B",
+      operatorButton: "#C2E7FF",
+      operatorText: "#004A77",
+      equalsButton: "#0B57D0",
+      equalsText: "#FFFFFF",
+      panelButton: "#EDEEF4",
+      panelText: "#44474E",
+      accent: "#0B57D0",
+    },
+    keyRoundness: 0.32,
+    keyFontWeight: "400",
+    displayFontWeight: "400",
+    keypad: [
+      ["clear", "parentheses", "percent", "divide"],
+      ...DIGIT_ROWS,
+      ["0", "decimal", "backspace", "equals"],
+    ],
+  },
+  oneui: {
+    id: "oneui",
+    name: "One UI",
+    dark: {
+      background: "#010101",
+      displayText: "#FAFAFA",
+      numberButton: "#171717",
+      numberText: "#FAFAFA",
+      functionButton: "#171717",
+      functionText: "#8DD06E",
+      operatorButton: "#171717",
+      operatorText: "#8DD06E",
+      equalsButton: "#3E9A36",
+      equalsText: "#FFFFFF",
+      panelButton: "#171717",
+      panelText: "#FAFAFA",
+      accent: "#8DD06E",
+    },
+    light: {
+      background: "#FCFCFC",
+      displayText: "#000000",
+      numberButton: "#F1F1F1",
+      numberText: "#000000",
+      functionButton: "#F1F1F1",
+      functionText: "#3E9A36",
+      operatorButton: "#F1F1F1",
+      operatorText: "#3E9A36",
+      equalsButton: "#3E9A36",
+      equalsText: "#FFFFFF",
+      panelButton: "#F1F1F1",
+      panelText: "#000000",
+      accent: "#3E9A36",
+    },
+    keyRoundness: 0.5,
+    keyFontWeight: "400",
+    displayFontWeight: "300",
+    keypad: [
+      ["clear", "parentheses", "percent", "divide"],
+      ...DIGIT_ROWS,
+      ["sign", "0", "decimal", "equals"],
+    ],
+  },
+  ios: {
+    id: "ios",
+    name: "iOS",
+    dark: {
+      background: "#000000",
+      displayText: "#FFFFFF",
+      numberButton: "#333333",
+      numberText: "#FFFFFF",
+      functionButton: "#A5A5A5",
+      functionText: "#000000",
+      operatorButton: "#FF9F0A",
+      operatorText: "#FFFFFF",
+      equalsButton: "#FF9F0A",
+      equalsText: "#FFFFFF",
+      panelButton: "#1C1C1E",
+      panelText: "#FFFFFF",
+      accent: "#FF9F0A",
+    },
+    light: {
+      background: "#FFFFFF",
+      displayText: "#000000",
+      numberButton: "#E5E5EA",
+      numberText: "#000000",
+      functionButton: "#C7C7CC",
+      functionText: "#000000",
+      operatorButton: "#FF9F0A",
+      operatorText: "#FFFFFF",
+      equalsButton: "#FF9F0A",
+      equalsText: "#FFFFFF",
+      panelButton: "#F2F2F7",
+      panelText: "#000000",
+      accent: "#FF9F0A",
+    },
+    keyRoundness: 0.5,
+    keyFontWeight: "400",
+    displayFontWeight: "200",
+    keypad: [
+      ["clear", "sign", "percent", "divide"],
+      ...DIGIT_ROWS,
+      ["0", "decimal", "equals"],
+    ],
+  },
+};
+
+export const SKIN_IDS = Object.keys(CALCULATOR_SKINS) as SkinId[];
+
+export const GraphColors = {
+  // One color per curve, in entry order
+  curves: ["#FF9F0A", "#0A84FF", "#30D158"],
+  axis: "#8E8E93",
+  grid: "#2C2C2E",
+  label: "#8E8E93",
+  marker: "#FFFFFF",
+};
+
 export const ChatColors = {
   background: "#0D0D0D",
   headerBackground: "#1F1F1F",
@@ -0,0 +1,60 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import {
+  CALCULATOR_SKINS,
+  CalculatorSkin,
+  SkinId,
+  SkinPalette,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { defaultSkinId, loadSkinId, saveSkinId } from "@/lib/calculator-skin";
+
+export interface CalculatorTheme {
+  skin: CalculatorSkin;
+  colors: SkinPalette;
+  isDark: boolean;
+}
+
+// Screens outside the calculator get the classic dark look
+export const CalculatorThemeContext = createContext<CalculatorTheme>({
+  skin: CALCULATOR_SKINS.classic,
+  colors: CALCULATOR_SKINS.classic.dark,
+  isDark: true,
+});
+
+export function useCalculatorTheme(): CalculatorTheme {
+  return useContext(CalculatorThemeContext);
+}
+
+// ============================================
+// SKIN STATE - The chosen skin in the system's light or dark palette
+// Owned by the calculator screen, which provides it to its keys
+// ============================================
+export function useCalculatorSkin() {
+  const colorScheme = useColorScheme();
+  const [skinId, setSkinIdState] = useState<SkinId>(defaultSkinId);
+
+  useEffect(() => {
+    loadSkinId().then(setSkinIdState);
+  }, []);
+
+  const setSkinId = useCallback((id: SkinId) => {
+    setSkinIdState(id);
+    saveSkinId(id);
+  }, []);
+
+  const theme = useMemo<CalculatorTheme>(() => {
+    const skin = CALCULATOR_SKINS[skinId];
+    const isDark = colorScheme !== "light";
+    return { skin, colors: isDark ? skin.dark : skin.light, isDark };
+  }, [skinId, colorScheme]);
+
+  return { theme, setSkinId };
+}
@@ -0,0 +1,39 @@
+import { useCallback } from "react";
+import { Platform } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+
+export interface HardwareKey {
+  // KeyboardEvent.key, e.g. "7", "+", "Enter", "Escape"
+  key: string;
+  // Ctrl, or ⌘ on macOS
+  isShortcut: boolean;
+}
+
+// ============================================
+// HARDWARE KEYBOARD - Key presses while the screen is focused
+// On web keys are caught before the focused element sees them, so a
+// handled key never also lands in a TextInput. Native keyboards type
+// into the focused TextInput instead and arrive through onChangeText.
+// ============================================
+export function useHardwareKeyboard(onKey: (key: HardwareKey) => boolean) {
+  useFocusEffect(
+    useCallback(() => {
+      if (Platform.OS !== "web") return;
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.altKey) return;
+        const isHandled = onKey({
+          key: event.key,
+          isShortcut: event.ctrlKey || event.metaKey,
+        });
+        if (isHandled) {
+          event.preventDefault();
+          event.stopPropagation();
+        }
+      };
+
+      window.addEventListener("keydown", handleKeyDown, true);
+      return () => window.removeEventListener("keydown", handleKeyDown, true);
+    }, [onKey]),
+  );
+}
@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+import { useLocales } from "expo-localization";
+
+import { NumberLocale, toNumberLocale } from "@/lib/locale-format";
+
+export function useNumberLocale(): NumberLocale {
+  const locales = useLocales();
+  const locale = locales[0];
+
+  return useMemo(() => toNumberLocale(locale), [locale]);
+}
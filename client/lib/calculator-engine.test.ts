@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ExpressionError,
+  ExpressionErrorKind,
+  evaluateExpression,
+  lastOperation,
+  parseExpression,
+  tokenize,
+} from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+
+function evaluate(input: string, x?: number): string {
+  return evaluateExpression(input, {
+    x: x === undefined ? undefined : Decimal.from(x),
+  }).toString();
+}
+
+function errorKind(input: string): ExpressionErrorKind | null {
+  try {
+    evaluateExpression(input);
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error.kind;
+    throw error;
+  }
+}
+
+describe("tokenize", () => {
+  it("reads numbers, operators and parentheses with their positions", () => {
+    expect(tokenize("12+(3.5)")).toEqual([
+      { type: "number", value: "12", position: 0 },
+      { type: "operator", value: "+", position: 2 },
+      { type: "leftParen", position: 3 },
+      { type: "number", value: "3.5", position: 4 },
+      { type: "rightParen", position: 7 },
+    ]);
+  });
+
+  it("normalizes leading and trailing zeros", () => {
+    expect(tokenize("007.500")).toEqual([
+      { type: "number", value: "7.5", position: 0 },
+    ]);
+    expect(tokenize(".5")[0]).toMatchObject({ value: "0.5" });
+  });
+
+  it("keeps scientific notation as part of the number", () => {
+    expect(tokenize("1.5E+20")).toEqual([
+      { type: "number", value: "1.5E20", position: 0 },
+    ]);
+    expect(tokenize("2E-3")[0]).toMatchObject({ value: "2E-3" });
+  });
+
+  it("accepts typed spellings of operators", () => {
+    const operators = tokenize("1*2/3−4").filter(
+      (token) => token.type === "operator",
+    );
+    expect(
+      operators.map((token) => token.type === "operator" && token.value),
+    ).toEqual(["×", "÷", "-"]);
+  });
+
+  it("reads functions, constants and the variable", () => {
+    expect(tokenize("sin⁻¹ sqrt pi e x").map((token) => token.type)).toEqual([
+      "function",
+      "function",
+      "constant",
+      "constant",
+      "variable",
+    ]);
+    expect(tokenize("√")[0]).toMatchObject({ name: "sqrt" });
+    expect(tokenize("pi")[0]).toMatchObject({ name: "π" });
+  });
+
+  it("rejects unknown characters and malformed numbers", () => {
+    expect(() => tokenize("2#3")).toThrow(ExpressionError);
+    expect(() => tokenize("1.2.3")).toThrow("more than one decimal point");
+    expect(() => tokenize(".")).toThrow("Lone decimal point");
+  });
+});
+
+describe("parseExpression", () => {
+  it("builds a tree by precedence", () => {
+    expect(parseExpression("1+2×3")).toEqual({
+      type: "binary",
+      operator: "+",
+      left: { type: "number", value: "1" },
+      right: {
+        type: "binary",
+        operator: "×",
+        left: { type: "number", value: "2" },
+        right: { type: "number", value: "3" },
+      },
+    });
+  });
+
+  it("parses postfix factorial and percent", () => {
+    expect(parseExpression("3!%")).toEqual({
+      type: "percent",
+      operand: { type: "factorial", operand: { type: "number", value: "3" } },
+    });
+  });
+
+  it("multiplies adjacent operands implicitly", () => {
+    expect(parseExpression("2π")).toMatchObject({
+      type: "binary",
+      operator: "×",
+    });
+    expect(evaluate("2(3)")).toBe("6");
+    expect(evaluate("(2)(3)")).toBe("6");
+    expect(evaluate("2x", 4)).toBe("8");
+    expect(evaluate("2sin(90)")).toBe("2");
+  });
+
+  it("rejects two numbers in a row", () => {
+    expect(errorKind("1 2")).toBe("syntax");
+    expect(errorKind("2^3 4")).toBe("syntax");
+  });
+
+  it("closes missing parentheses at the end", () => {
+    expect(evaluate("(2+3")).toBe("5");
+    expect(evaluate("2×(3+(4")).toBe("14");
+  });
+});
+
+describe("operator precedence", () => {
+  it.each([
+    ["2+3×4", "14"],
+    ["(2+3)×4", "20"],
+    ["10-4-3", "3"],
+    ["24÷4÷2", "3"],
+    ["2^3^2", "512"],
+    ["-2^2", "-4"],
+    ["(-2)^2", "4"],
+    ["5×-3", "-15"],
+    ["2^-1", "0.5"],
+    ["-3!", "-6"],
+    ["1^(10^400)", "1"],
+    ["(-1)^(10^400)", "1"],
+    ["(-1)^(10^17+1)", "-1"],
+    ["(-1)^-(10^400+1)", "-1"],
+    ["0.5^(10^20)", "0"],
+  ])("%s = %s", (input, expected) => {
+    expect(evaluate(input)).toBe(expected);
+  });
+
+  it("adds and subtracts percentages of the left operand", () => {
+    expect(evaluate("200+10%")).toBe("220");
+    expect(evaluate("200-10%")).toBe("180");
+    expect(evaluate("200×10%")).toBe("20");
+  });
+
+  it("keeps decimal sums exact", () => {
+    expect(evaluate("0.1+0.2")).toBe("0.3");
+    expect(evaluate("1E-9999+1")).toBe(`1.${"0".repeat(9998)}1`);
+  });
+
+  it("takes numbers below 10^-9999 as zero", () => {
+    expect(evaluate("1E-10000")).toBe("0");
+    expect(evaluate("1E-9999999+1")).toBe("1");
+    expect(evaluate("2^-40000")).toBe("0");
+  });
+});
+
+describe("errors", () => {
+  it.each<[string, ExpressionErrorKind]>([
+    ["", "empty"],
+    ["   ", "empty"],
+    ["2+", "incomplete"],
+    ["2×", "incomplete"],
+    ["2×÷3", "syntax"],
+    ["()", "syntax"],
+    ["!3", "syntax"],
+    ["x+1", "syntax"],
+    ["2)", "unbalanced_parentheses"],
+    [")", "unbalanced_parentheses"],
+    ["1÷0", "divide_by_zero"],
+    ["0^-1", "divide_by_zero"],
+    ["√(-4)", "domain"],
+    ["ln(0)", "domain"],
+    ["(-8)^0.5", "domain"],
+    ["asin(2)", "domain"],
+    ["tan(90)", "domain"],
+    ["2.5!", "domain"],
+    ["10^10000", "overflow"],
+    ["3249!", "overflow"],
+    ["(1+10^-30)^(10^17)", "overflow"],
+  ])("%j is %s", (input, kind) => {
+    expect(errorKind(input)).toBe(kind);
+  });
+
+  it("reports where the problem is", () => {
+    try {
+      parseExpression("2+)");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect((error as ExpressionError).position).toBe(2);
+    }
+  });
+});
+
+describe("lastOperation", () => {
+  it("finds the last top-level operator and its operand", () => {
+    expect(lastOperation("2+3×4")).toEqual({ operator: "×", operand: "4" });
+    expect(lastOperation("2×(3+4)")).toEqual({
+      operator: "×",
+      operand: "(3+4)",
+    });
+  });
+
+  it("ignores a leading minus", () => {
+    expect(lastOperation("-5")).toBeNull();
+    expect(lastOperation("2×-5")).toEqual({ operator: "×", operand: "-5" });
+  });
+});
@@ -0,0 +1,801 @@
+// ============================================
+// CALCULATOR ENGINE
+// Tokenizer + precedence-climbing parser + evaluator
+// Shared by the keypad, live preview, percent and sign toggle
+// Results are exact decimals, see decimal.ts
+// ============================================
+
+import {
+  Decimal,
+  DecimalContext,
+  DEFAULT_DECIMAL_CONTEXT,
+} from "@/lib/decimal";
+
+export type ExpressionErrorKind =
+  | "empty"
+  | "incomplete"
+  | "syntax"
+  | "unbalanced_parentheses"
+  | "divide_by_zero"
+  | "domain"
+  | "overflow";
+
+export class ExpressionError extends Error {
+  kind: ExpressionErrorKind;
+  position: number;
+
+  constructor(kind: ExpressionErrorKind, message: string, position = -1) {
+    super(message);
+    this.name = "ExpressionError";
+    this.kind = kind;
+    this.position = position;
+  }
+}
+
+// What the display shows in place of a result, one line per kind
+// so a new kind cannot be added without a message
+export const ERROR_MESSAGES: Record<ExpressionErrorKind, string> = {
+  empty: "Invalid format",
+  incomplete: "Invalid format",
+  syntax: "Invalid format",
+  unbalanced_parentheses: "Invalid format",
+  divide_by_zero: "Can't divide by 0",
+  domain: "Domain error",
+  overflow: "Overflow",
+};
+
+export type BinaryOperator = "+" | "-" | "×" | "÷" | "^";
+export type UnaryOperator = "+" | "-";
+export type ScientificFunction =
+  | "sin"
+  | "cos"
+  | "tan"
+  | "asin"
+  | "acos"
+  | "atan"
+  | "ln"
+  | "log"
+  | "sqrt";
+export type Constant = "π" | "e";
+// Free variable of graphed functions, y = f(x)
+export type Variable = "x";
+export type AngleMode = "deg" | "rad";
+
+export type Token =
+  | { type: "number"; value: string; position: number }
+  | { type: "operator"; value: BinaryOperator; position: number }
+  | { type: "function"; name: ScientificFunction; position: number }
+  | { type: "constant"; name: Constant; position: number }
+  | { type: "variable"; name: Variable; position: number }
+  | { type: "factorial"; position: number }
+  | { type: "percent"; position: number }
+  | { type: "leftParen"; position: number }
+  | { type: "rightParen"; position: number };
+
+export type ExpressionNode =
+  | { type: "number"; value: string }
+  | { type: "constant"; name: Constant }
+  | { type: "variable"; name: Variable }
+  | { type: "unary"; operator: UnaryOperator; operand: ExpressionNode }
+  | { type: "factorial"; operand: ExpressionNode }
+  | { type: "percent"; operand: ExpressionNode }
+  | { type: "function"; name: ScientificFunction; argument: ExpressionNode }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    };
+
+export const BINARY_OPERATORS: readonly BinaryOperator[] = [
+  "+",
+  "-",
+  "×",
+  "÷",
+  "^",
+];
+
+// Alternate spellings accepted from typed or pasted input
+const OPERATOR_ALIASES: Record<string, BinaryOperator> = {
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "×": "×",
+  "*": "×",
+  "÷": "÷",
+  "/": "÷",
+  "^": "^",
+};
+
+// Keypad labels first, then typed spellings; matched longest first
+const FUNCTION_ALIASES: Record<string, ScientificFunction> = {
+  "sin⁻¹": "asin",
+  "cos⁻¹": "acos",
+  "tan⁻¹": "atan",
+  asin: "asin",
+  acos: "acos",
+  atan: "atan",
+  sin: "sin",
+  cos: "cos",
+  tan: "tan",
+  ln: "ln",
+  log: "log",
+  "√": "sqrt",
+  sqrt: "sqrt",
+};
+
+const FUNCTION_NAMES = Object.keys(FUNCTION_ALIASES).sort(
+  (a, b) => b.length - a.length,
+);
+
+const CONSTANT_ALIASES: Record<string, Constant> = {
+  π: "π",
+  pi: "π",
+  e: "e",
+};
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  "+": 1,
+  "-": 1,
+  "×": 2,
+  "÷": 2,
+  "^": 4,
+};
+
+// Unary minus binds tighter than × and ÷, so 5×-3 is 5×(-3),
+// but looser than ^, so -2^2 is -(2^2)
+const UNARY_PRECEDENCE = 3;
+
+export function isOperator(char: string | undefined): boolean {
+  return char !== undefined && char in OPERATOR_ALIASES;
+}
+
+// Keypad operator for a typed one, e.g. "*" → "×"
+export function toOperator(char: string): BinaryOperator | null {
+  return isOperator(char) ? OPERATOR_ALIASES[char] : null;
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+function normalizeNumber(raw: string, position: number): string {
+  if (raw === ".") {
+    throw new ExpressionError("syntax", "Lone decimal point", position);
+  }
+
+  let [integerPart, fractionPart = ""] = raw.split(".");
+  integerPart = integerPart.replace(/^0+(?=\d)/, "") || "0";
+  fractionPart = fractionPart.replace(/0+$/, "");
+
+  return fractionPart ? `${integerPart}.${fractionPart}` : integerPart;
+}
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const start = index;
+      let seenDecimal = false;
+      while (index < input.length && /[0-9.]/.test(input[index])) {
+        if (input[index] === ".") {
+          if (seenDecimal) {
+            throw new ExpressionError(
+              "syntax",
+              "Number has more than one decimal point",
+              index,
+            );
+          }
+          seenDecimal = true;
+        }
+        index++;
+      }
+      let value = normalizeNumber(input.slice(start, index), start);
+
+      // Scientific notation as produced by the display, e.g. 1.5E20
+      const exponent = /^E[+-]?\d+/.exec(input.slice(index));
+      if (exponent) {
+        value += exponent[0].replace("+", "");
+        index += exponent[0].length;
+      }
+
+      tokens.push({ type: "number", value, position: start });
+      continue;
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "leftParen", position: index });
+      index++;
+      continue;
+    }
+
+    if (char === ")") {
+      tokens.push({ type: "rightParen", position: index });
+      index++;
+      continue;
+    }
+
+    if (char === "!") {
+      tokens.push({ type: "factorial", position: index });
+      index++;
+      continue;
+    }
+
+    if (char === "%") {
+      tokens.push({ type: "percent", position: index });
+      index++;
+      continue;
+    }
+
+    const operator = OPERATOR_ALIASES[char];
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: index });
+      index++;
+      continue;
+    }
+
+    const functionName = FUNCTION_NAMES.find((name) =>
+      input.startsWith(name, index),
+    );
+    if (functionName) {
+      tokens.push({
+        type: "function",
+        name: FUNCTION_ALIASES[functionName],
+        position: index,
+      });
+      index += functionName.length;
+      continue;
+    }
+
+    if (char === "x") {
+      tokens.push({ type: "variable", name: "x", position: index });
+      index++;
+      continue;
+    }
+
+    const constantName = input.startsWith("pi", index) ? "pi" : char;
+    const constant = CONSTANT_ALIASES[constantName];
+    if (constant) {
+      tokens.push({ type: "constant", name: constant, position: index });
+      index += constantName.length;
+      continue;
+    }
+
+    throw new ExpressionError(
+      "syntax",
+      `Unexpected character "${char}"`,
+      index,
+    );
+  }
+
+  return tokens;
+}
+
+// ============================================
+// PARSER
+// Precedence climbing with implicit multiplication: 2(3), (2)(3), 2π, 2x, 2sin(30)
+// Missing closing parentheses are auto-closed like stock calculators
+// ============================================
+
+function startsOperand(token: Token): boolean {
+  return (
+    token.type === "number" ||
+    token.type === "constant" ||
+    token.type === "variable" ||
+    token.type === "function" ||
+    token.type === "leftParen"
+  );
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private inputLength: number,
+  ) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("empty", "Expression is empty", 0);
+    }
+
+    const node = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(
+        extra.type === "rightParen" ? "unbalanced_parentheses" : "syntax",
+        "Unexpected token",
+        extra.position,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      let operator: BinaryOperator;
+
+      if (token?.type === "operator") {
+        operator = token.value;
+      } else if (token && startsOperand(token)) {
+        // Two numbers in a row, as in "1 2", are a typo, not a product
+        if (
+          token.type === "number" &&
+          this.tokens[this.index - 1]?.type === "number"
+        ) {
+          throw new ExpressionError(
+            "syntax",
+            "Missing operator between numbers",
+            token.position,
+          );
+        }
+        // Implicit multiplication between adjacent operands
+        operator = "×";
+      } else {
+        break;
+      }
+
+      const precedence = PRECEDENCE[operator];
+      if (precedence < minPrecedence) break;
+      if (token.type === "operator") this.next();
+
+      // ^ is right-associative, everything else left-associative
+      const right = this.parseBinary(
+        operator === "^" ? precedence : precedence + 1,
+      );
+      left = { type: "binary", operator, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      token?.type === "operator" &&
+      (token.value === "-" || token.value === "+")
+    ) {
+      this.next();
+      const operand = this.parseBinary(UNARY_PRECEDENCE);
+      return { type: "unary", operator: token.value, operand };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type === "factorial") {
+        node = { type: "factorial", operand: node };
+      } else if (token?.type === "percent") {
+        node = { type: "percent", operand: node };
+      } else {
+        break;
+      }
+      this.next();
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (!token) {
+      throw new ExpressionError(
+        "incomplete",
+        "Expression ends unexpectedly",
+        this.inputLength,
+      );
+    }
+
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: token.value };
+
+      case "constant":
+        return { type: "constant", name: token.name };
+
+      case "variable":
+        return { type: "variable", name: token.name };
+
+      case "leftParen":
+        return this.parseGroup(token.position);
+
+      case "function": {
+        // sin(30) takes the group, sin30 and √2 take the next operand
+        const argument =
+          this.peek()?.type === "leftParen"
+            ? this.parseGroup(this.next()!.position)
+            : this.parseBinary(UNARY_PRECEDENCE);
+        return { type: "function", name: token.name, argument };
+      }
+
+      case "rightParen":
+        throw new ExpressionError(
+          "unbalanced_parentheses",
+          "Unexpected )",
+          token.position,
+        );
+
+      case "factorial":
+        throw new ExpressionError("syntax", "Unexpected !", token.position);
+
+      case "percent":
+        throw new ExpressionError("syntax", "Unexpected %", token.position);
+
+      case "operator":
+        throw new ExpressionError(
+          "syntax",
+          `Unexpected operator "${token.value}"`,
+          token.position,
+        );
+    }
+  }
+
+  // Parses the inside of a group whose ( has already been consumed
+  private parseGroup(position: number): ExpressionNode {
+    if (this.peek()?.type === "rightParen") {
+      throw new ExpressionError("syntax", "Empty parentheses", position);
+    }
+    const inner = this.parseBinary(0);
+    const closing = this.peek();
+    if (closing?.type === "rightParen") {
+      this.next();
+    } else if (closing) {
+      throw new ExpressionError("syntax", "Expected )", closing.position);
+    }
+    return inner;
+  }
+}
+
+export function parseExpression(input: string): ExpressionNode {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+// ============================================
+// EVALUATOR
+// ============================================
+
+export interface EvaluationOptions {
+  // Significant digits kept by division and multiplication
+  precision?: number;
+  // Unit for trigonometric arguments and inverse results
+  angleMode?: AngleMode;
+  // Value substituted for x; without one, x is an error
+  x?: Decimal;
+}
+
+interface EvaluationScope {
+  decimal: DecimalContext;
+  angleMode: AngleMode;
+  x?: Decimal;
+}
+
+// Anything beyond 10^9999 is reported as overflow, and anything closer
+// to zero than 10^-9999 is taken as zero. Sums are exact, so without
+// the lower bound 1E-9999999+1 would spell out ten million digits.
+const MAX_EXPONENT = 9999;
+
+// 3249! is the first factorial past 10^9999
+const MAX_FACTORIAL = 3248;
+
+// Digits trusted from Math.* results before they are rounded away
+const FLOAT_DIGITS = 15;
+
+const CONSTANT_VALUES: Record<Constant, Decimal> = {
+  π: Decimal.parse("3.14159265358979323846264338327950288419716939937510"),
+  e: Decimal.parse("2.71828182845904523536028747135266249775724709369995"),
+};
+
+const NINETY = Decimal.from(90);
+const HUNDRED = Decimal.from(100);
+
+function checkRange(value: Decimal): Decimal {
+  if (value.isZero()) return value;
+  const exponent = value.adjustedExponent();
+  if (exponent > MAX_EXPONENT) {
+    throw new ExpressionError("overflow", "Result is too large");
+  }
+  return exponent < -MAX_EXPONENT ? Decimal.ZERO : value;
+}
+
+function fromFloat(value: number): Decimal {
+  if (Number.isNaN(value)) {
+    throw new ExpressionError("domain", "Result is undefined");
+  }
+  if (!Number.isFinite(value)) {
+    throw new ExpressionError("overflow", "Result is too large");
+  }
+  return Decimal.from(value).round(FLOAT_DIGITS);
+}
+
+function domainError(message: string): never {
+  throw new ExpressionError("domain", message);
+}
+
+function factorial(value: Decimal): Decimal {
+  if (!value.isInteger() || value.isNegative()) {
+    domainError("Factorial needs a non-negative integer");
+  }
+  if (value.compare(Decimal.from(MAX_FACTORIAL)) > 0) {
+    throw new ExpressionError("overflow", "Result is too large");
+  }
+  let result = 1n;
+  for (let n = 2n, limit = BigInt(value.toString()); n <= limit; n++) {
+    result *= n;
+  }
+  return Decimal.from(result);
+}
+
+function power(base: Decimal, exponent: Decimal, scope: EvaluationScope) {
+  if (base.isZero()) {
+    if (exponent.isNegative()) {
+      throw new ExpressionError("divide_by_zero", "Division by zero");
+    }
+    return exponent.isZero() ? Decimal.ONE : Decimal.ZERO;
+  }
+
+  if (exponent.isInteger()) {
+    // ±1 stays ±1 however large the exponent, which a float can't count
+    if (base.abs().equals(Decimal.ONE)) {
+      const odd = BigInt(exponent.toString()) % 2n !== 0n;
+      return base.isNegative() && odd ? base : Decimal.ONE;
+    }
+
+    // Estimate the magnitude before doing any exact work
+    const times = exponent.toNumber();
+    const magnitude = Math.log10(base.abs().toNumber()) * times;
+    if (magnitude > MAX_EXPONENT) {
+      throw new ExpressionError("overflow", "Result is too large");
+    }
+    if (magnitude < -MAX_EXPONENT) return Decimal.ZERO;
+    // Past this a float no longer holds the exponent exactly
+    if (!Number.isSafeInteger(times)) {
+      throw new ExpressionError("overflow", "Exponent is too large");
+    }
+    return base.pow(times, scope.decimal);
+  }
+
+  if (base.isNegative()) {
+    domainError("Fractional power of a negative number");
+  }
+  return fromFloat(Math.pow(base.toNumber(), exponent.toNumber()));
+}
+
+// Exact results for whole multiples of 90° so sin(180) is 0, not 1.2E-16
+function exactTrig(
+  name: "sin" | "cos" | "tan",
+  degrees: Decimal,
+  scope: EvaluationScope,
+): Decimal | null {
+  const quarterTurns = degrees.div(NINETY, scope.decimal);
+  if (!quarterTurns.isInteger()) return null;
+
+  const quadrant = Number(((BigInt(quarterTurns.toString()) % 4n) + 4n) % 4n);
+  const sine = [0, 1, 0, -1][quadrant];
+  const cosine = [1, 0, -1, 0][quadrant];
+  if (name === "sin") return Decimal.from(sine);
+  if (name === "cos") return Decimal.from(cosine);
+  if (cosine === 0) domainError("Tangent is undefined");
+  return Decimal.ZERO;
+}
+
+function applyFunction(
+  name: ScientificFunction,
+  argument: Decimal,
+  scope: EvaluationScope,
+): Decimal {
+  const isDegrees = scope.angleMode === "deg";
+  const x = argument.toNumber();
+
+  switch (name) {
+    case "sin":
+    case "cos":
+    case "tan": {
+      if (isDegrees) {
+        const exact = exactTrig(name, argument, scope);
+        if (exact) return exact;
+      }
+      const radians = isDegrees ? ((x % 360) * Math.PI) / 180 : x;
+      const value = Math[name](radians);
+      // Float noise near a root, e.g. sin(π) in RAD mode
+      if (Math.abs(x) >= 1 && Math.abs(value) < 1e-15) return Decimal.ZERO;
+      return fromFloat(value);
+    }
+
+    case "asin":
+    case "acos":
+      if (x < -1 || x > 1) {
+        domainError("Inverse sine and cosine need -1 ≤ x ≤ 1");
+      }
+    // falls through
+    case "atan": {
+      const radians = Math[name](x);
+      return fromFloat(isDegrees ? (radians * 180) / Math.PI : radians);
+    }
+
+    case "ln":
+    case "log": {
+      if (argument.isZero() || argument.isNegative()) {
+        domainError("Logarithm needs a positive number");
+      }
+      // Exact powers of ten such as log(1000)
+      if (name === "log" && argument.coefficient === 1n) {
+        return Decimal.from(argument.exponent);
+      }
+      return fromFloat(name === "ln" ? Math.log(x) : Math.log10(x));
+    }
+
+    case "sqrt":
+      if (argument.isNegative()) {
+        domainError("Square root of a negative number");
+      }
+      return argument.sqrt(scope.decimal);
+  }
+}
+
+function isAdditive(operator: BinaryOperator): boolean {
+  return operator === "+" || operator === "-";
+}
+
+function evaluateWithScope(
+  node: ExpressionNode,
+  scope: EvaluationScope,
+): Decimal {
+  switch (node.type) {
+    case "number":
+      return checkRange(Decimal.parse(node.value));
+
+    case "constant":
+      return CONSTANT_VALUES[node.name].round(scope.decimal.precision);
+
+    case "variable":
+      if (!scope.x) {
+        throw new ExpressionError("syntax", "x has no value here");
+      }
+      return scope.x;
+
+    case "unary": {
+      const operand = evaluateWithScope(node.operand, scope);
+      return node.operator === "-" ? operand.negate() : operand;
+    }
+
+    case "factorial":
+      return factorial(evaluateWithScope(node.operand, scope));
+
+    case "percent":
+      return evaluateWithScope(node.operand, scope).div(HUNDRED, scope.decimal);
+
+    case "function":
+      return checkRange(
+        applyFunction(
+          node.name,
+          evaluateWithScope(node.argument, scope),
+          scope,
+        ),
+      );
+
+    case "binary": {
+      const left = evaluateWithScope(node.left, scope);
+      // a + b% and a − b% add or take off b percent of a, like stock
+      // calculators; a × b% and a ÷ b% just use b/100
+      const right =
+        isAdditive(node.operator) && node.right.type === "percent"
+          ? left.mul(evaluateWithScope(node.right, scope), scope.decimal)
+          : evaluateWithScope(node.right, scope);
+      switch (node.operator) {
+        case "+":
+          return checkRange(left.add(right));
+        case "-":
+          return checkRange(left.sub(right));
+        case "×":
+          return checkRange(left.mul(right, scope.decimal));
+        case "÷":
+          if (right.isZero()) {
+            throw new ExpressionError("divide_by_zero", "Division by zero");
+          }
+          return checkRange(left.div(right, scope.decimal));
+        case "^":
+          return checkRange(power(left, right, scope));
+      }
+    }
+  }
+}
+
+export function evaluateNode(
+  node: ExpressionNode,
+  options: EvaluationOptions = {},
+): Decimal {
+  return evaluateWithScope(node, {
+    decimal: {
+      ...DEFAULT_DECIMAL_CONTEXT,
+      precision: options.precision ?? DEFAULT_DECIMAL_CONTEXT.precision,
+    },
+    angleMode: options.angleMode ?? "deg",
+    x: options.x,
+  });
+}
+
+export function evaluateExpression(
+  input: string,
+  options: EvaluationOptions = {},
+): Decimal {
+  return evaluateNode(parseExpression(input), options);
+}
+
+// Convenience wrapper for callers that only care about success
+export function calculateExpression(
+  input: string,
+  options?: EvaluationOptions,
+): Decimal | null {
+  try {
+    return evaluateExpression(input, options);
+  } catch (error) {
+    if (error instanceof ExpressionError) return null;
+    throw error;
+  }
+}
+
+// ============================================
+// REPEATED EQUALS - The last top-level operator and what follows it,
+// e.g. "×4" of 2+3×4, which another = applies to the result again
+// ============================================
+export interface RepeatableOperation {
+  operator: BinaryOperator;
+  operand: string;
+}
+
+export function lastOperation(input: string): RepeatableOperation | null {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(input);
+  } catch (error) {
+    if (error instanceof ExpressionError) return null;
+    throw error;
+  }
+
+  let depth = 0;
+  let last: { operator: BinaryOperator; position: number } | null = null;
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type === "leftParen") depth++;
+    if (token.type === "rightParen") depth--;
+    if (token.type !== "operator" || depth !== 0) continue;
+
+    // A minus that starts an operand negates rather than subtracts
+    const previous = tokens[index - 1];
+    const isBinary =
+      previous !== undefined &&
+      previous.type !== "operator" &&
+      previous.type !== "leftParen" &&
+      previous.type !== "function";
+    if (isBinary) last = { operator: token.value, position: token.position };
+  }
+
+  if (last === null) return null;
+  const { operator, position } = last;
+  const operand = input.slice(position + 1).trim();
+  return operand === "" ? null : { operator, operand };
+}
@@ -0,0 +1,67 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// ============================================
+// CALCULATION HISTORY
+// Finalized "expression = result" entries, newest first
+// Kept in plain AsyncStorage: it is ordinary calculator data
+// ============================================
+
+const HISTORY_KEY = "calculator_history";
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface HistoryEntry {
+  id: string;
+  expression: string;
+  result: string;
+  timestamp: number;
+}
+
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  try {
+    const data = await AsyncStorage.getItem(HISTORY_KEY);
+    if (data) {
+      const entries = JSON.parse(data);
+      return Array.isArray(entries) ? entries : [];
+    }
+    return [];
+  } catch (error) {
+    console.error("Error loading calculator history:", error);
+    return [];
+  }
+}
+
+async function saveHistory(entries: HistoryEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Error saving calculator history:", error);
+  }
+}
+
+// Returns the updated list so callers can render it without reloading
+export async function addHistoryEntry(
+  entries: HistoryEntry[],
+  expression: string,
+  result: string,
+): Promise<HistoryEntry[]> {
+  const timestamp = Date.now();
+  const updated = [
+    {
+      id: `calc_${timestamp}_${entries.length}`,
+      expression,
+      result,
+      timestamp,
+    },
+    ...entries,
+  ].slice(0, MAX_HISTORY_ENTRIES);
+  await saveHistory(updated);
+  return updated;
+}
+
+export async function clearHistory(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(HISTORY_KEY);
+  } catch (error) {
+    console.error("Error clearing calculator history:", error);
+  }
+}
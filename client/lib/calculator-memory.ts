@@ -0,0 +1,33 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { Decimal } from "@/lib/decimal";
+
+// ============================================
+// MEMORY REGISTER - MC, M+, M−, MR
+// Survives app restarts like a hardware calculator's memory
+// A zero register counts as empty, so the "M" indicator goes away
+// ============================================
+
+const MEMORY_KEY = "calculator_memory";
+
+export async function loadMemory(): Promise<Decimal | null> {
+  try {
+    const data = await AsyncStorage.getItem(MEMORY_KEY);
+    return data ? Decimal.parse(data) : null;
+  } catch (error) {
+    console.error("Error loading calculator memory:", error);
+    return null;
+  }
+}
+
+export async function saveMemory(value: Decimal | null): Promise<void> {
+  try {
+    if (value === null || value.isZero()) {
+      await AsyncStorage.removeItem(MEMORY_KEY);
+    } else {
+      await AsyncStorage.setItem(MEMORY_KEY, value.toString());
+    }
+  } catch (error) {
+    console.error("Error saving calculator memory:", error);
+  }
+}
@@ -0,0 +1,42 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Platform } from "react-native";
+
+import { CALCULATOR_SKINS, SkinId } from "@/constants/theme";
+
+// ============================================
+// CALCULATOR SKIN - Which stock calculator the app imitates
+// Until one is picked, the skin matches the phone's own calculator
+// ============================================
+
+const SKIN_KEY = "calculator_skin";
+
+export function defaultSkinId(): SkinId {
+  if (Platform.OS === "ios") return "ios";
+  if (Platform.OS === "android") {
+    const manufacturer = String(Platform.constants.Manufacturer);
+    return manufacturer.toLowerCase() === "samsung" ? "oneui" : "pixel";
+  }
+  return "classic";
+}
+
+function isSkinId(value: string): value is SkinId {
+  return Object.prototype.hasOwnProperty.call(CALCULATOR_SKINS, value);
+}
+
+export async function loadSkinId(): Promise<SkinId> {
+  try {
+    const data = await AsyncStorage.getItem(SKIN_KEY);
+    return data !== null && isSkinId(data) ? data : defaultSkinId();
+  } catch (error) {
+    console.error("Error loading calculator skin:", error);
+    return defaultSkinId();
+  }
+}
+
+export async function saveSkinId(id: SkinId): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SKIN_KEY, id);
+  } catch (error) {
+    console.error("Error saving calculator skin:", error);
+  }
+}
@@ -4,13 +4,7 @@
 // No Firebase, Telegram, or external services
 // ============================================
 
-import { getPairing } from "@/lib/secure-storage";
-
-// ============================================
-// PAIRING DATA - Fetched from external URL on first unlock
-// URL: https://www.zidhuxd.me/chat.json
-// ============================================
-const PAIRING_URL = "https://www.zidhuxd.me/chat.json";
+import { getDeviceId, getDeviceSecret } from "@/lib/secure-storage";
 
 // ============================================
 // PRODUCTION API SERVER
@@ -18,12 +12,6 @@ const PAIRING_URL = "https://www.zidhuxd.me/chat.json";
 // ============================================
 const API_BASE = "https://chat-server-production-6f5d.up.railway.app";
 
-// API keys for authorization (matches server configuration)
-const API_KEYS = {
-  A: "calc-user-a-key-2024",
-  B: "calc-user-b-key-2024",
-};
-
 export interface Message {
   id: string;
   text: string;
@@ -46,40 +34,241 @@ export interface ReadReceiptEvent {
   timestamp: number;
 }
 
-export interface PairingResponse {
-  pairings: Array<{ code: string; role: "A" | "B" }>;
-  bot_token?: string;
-  group_chat_id?: string;
+export interface IssuedPairingCode {
+  code: string;
+  expiresAt: number;
+  deviceSecret: string;
+}
+
+export interface RedeemedPairing {
+  pairingId: string;
+  role: "A" | "B";
+  deviceSecret: string;
+}
+
+export type PairingStatus =
+  | { status: "paired"; pairingId: string; role: "A" | "B" }
+  | { status: "pending"; expiresAt: number }
+  | { status: "none" };
+
+// ============================================
+// ACCESS TOKENS - Short-lived, held in memory only
+// Fetched with the device secret from pairing, and fetched again when
+// one expires or the server rejects it
+// ============================================
+interface IssuedToken {
+  token: string;
+  expiresAt: number;
+}
+
+let accessToken: IssuedToken | null = null;
+
+// Renew a little early so no request goes out with a dying token
+const TOKEN_RENEW_MARGIN = 30 * 1000;
+
+// Set when the server says the partner unpaired; every request fails
+// from then on, so the chat checks this instead of its results
+let pairingEnded = false;
+
+export function hasPairingEnded(): boolean {
+  return pairingEnded;
+}
+
+// Null when refused or unreachable; "ended" once the partner unpaired
+async function tradeDeviceSecret(
+  deviceId: string,
+  deviceSecret: string,
+): Promise<IssuedToken | "ended" | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/auth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceId, deviceSecret }),
+    });
+    if (response.status === 410) return "ended";
+    if (!response.ok) {
+      console.error("Failed to get access token:", response.status);
+      return null;
+    }
+    const { accessToken: token, expiresAt } = await response.json();
+    return { token, expiresAt };
+  } catch (error) {
+    console.error("Error getting access token:", error);
+    return null;
+  }
+}
+
+// Shared by every request that needs a token at the same moment, so
+// parallel polls trade the secret once
+let renewal: Promise<string | null> | null = null;
+
+function renewAccessToken(): Promise<string | null> {
+  if (!renewal) {
+    renewal = requestAccessToken().finally(() => {
+      renewal = null;
+    });
+  }
+  return renewal;
+}
+
+async function requestAccessToken(): Promise<string | null> {
+  accessToken = null;
+  const deviceSecret = await getDeviceSecret();
+  if (!deviceSecret) return null;
+
+  const issued = await tradeDeviceSecret(await getDeviceId(), deviceSecret);
+  if (issued === "ended") {
+    pairingEnded = true;
+    return null;
+  }
+  accessToken = issued;
+  return issued?.token ?? null;
 }
 
-// Helper to get authorization header for a role
-function getAuthHeader(role: "A" | "B"): { Authorization: string } {
-  return { Authorization: `Bearer ${API_KEYS[role]}` };
+// Drops the cached token, so nothing can be sent once the device
+// secret is gone
+export function forgetAccessToken(): void {
+  accessToken = null;
+  pairingEnded = false;
+}
+
+// Posts once with a token traded for the given credentials, which is
+// used once and not kept. Null when no token can be had.
+async function fetchOnce(
+  deviceId: string,
+  deviceSecret: string,
+  path: string,
+): Promise<Response | null> {
+  const issued = await tradeDeviceSecret(deviceId, deviceSecret);
+  if (!issued || issued === "ended") return null;
+  return await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${issued.token}` },
+  });
+}
+
+// Calls the API with the device's access token; a token the server
+// rejects is renewed and the request sent once more. Throws when no
+// token can be had, so nothing goes out unauthorized.
+async function authorizedFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const send = (token: string | null) => {
+    if (token === null) throw new Error("No access token");
+    return fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+  };
+
+  const current = accessToken;
+  const isFresh =
+    current !== null && Date.now() < current.expiresAt - TOKEN_RENEW_MARGIN;
+  const response = await send(
+    isFresh ? current.token : await renewAccessToken(),
+  );
+  if (response.status !== 401 || !isFresh) return response;
+
+  // Another request may already have replaced the rejected token
+  const latest = accessToken;
+  return send(
+    latest !== null && latest !== current
+      ? latest.token
+      : await renewAccessToken(),
+  );
 }
 
 // ============================================
-// PAIRING - Fetched from https://www.zidhuxd.me/chat.json
-// This is called on first unlock to get pairing data
+// PAIRING - Server-issued codes, valid for 7 minutes
+// The device that asks for a code is A; the one that redeems it is B
 // ============================================
-export async function fetchPairingData(): Promise<PairingResponse | null> {
+export async function requestPairingCode(
+  deviceId: string,
+): Promise<IssuedPairingCode | null> {
   try {
-    const response = await fetch(PAIRING_URL);
+    const response = await fetch(`${API_BASE}/api/pairing/code`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceId }),
+    });
     if (!response.ok) {
-      console.error("Failed to fetch pairing data:", response.status);
+      console.error("Failed to request pairing code:", response.status);
       return null;
     }
     return await response.json();
   } catch (error) {
-    console.error("Error fetching pairing data:", error);
+    console.error("Error requesting pairing code:", error);
     return null;
   }
 }
 
-export function findPairingByCode(
-  data: PairingResponse,
-  code: string
-): { code: string; role: "A" | "B" } | null {
-  return data.pairings.find((p) => p.code === code) || null;
+// Null for an unknown, expired or own code; "throttled" while the
+// server is turning redeems away, whatever the code
+export async function redeemPairingCode(
+  deviceId: string,
+  code: string,
+): Promise<RedeemedPairing | "throttled" | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/pairing/redeem`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceId, code }),
+    });
+    if (response.status === 429) return "throttled";
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error("Error redeeming pairing code:", error);
+    return null;
+  }
+}
+
+export async function fetchPairingStatus(
+  deviceId: string,
+): Promise<PairingStatus | null> {
+  try {
+    const response = await fetch(
+      `${API_BASE}/api/pairing/status?deviceId=${encodeURIComponent(deviceId)}`,
+    );
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching pairing status:", error);
+    return null;
+  }
+}
+
+// Ends the pairing for both devices and revokes this one's credential
+// Like endPairing, for a device already wiped: the credentials are the
+// ones it held before
+export async function abandonPairing(
+  deviceId: string,
+  deviceSecret: string,
+): Promise<boolean> {
+  try {
+    const response = await fetchOnce(
+      deviceId,
+      deviceSecret,
+      "/api/pairing/unpair",
+    );
+    return response?.ok ?? false;
+  } catch (error) {
+    console.error("Error abandoning pairing:", error);
+    return false;
+  }
+}
+
+export async function endPairing(): Promise<boolean> {
+  try {
+    const response = await authorizedFetch("/api/pairing/unpair", {
+      method: "POST",
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("Error ending pairing:", error);
+    return false;
+  }
 }
 
 // ============================================
@@ -88,16 +277,12 @@ export function findPairingByCode(
 // ============================================
 
 // Send a new message
-export async function sendMessage(
-  role: "A" | "B",
-  text: string
-): Promise<Message | null> {
+export async function sendMessage(text: string): Promise<Message | null> {
   try {
-    const response = await fetch(`${API_BASE}/api/send`, {
+    const response = await authorizedFetch("/api/send", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        ...getAuthHeader(role),
       },
       body: JSON.stringify({
         text,
@@ -116,14 +301,9 @@ export async function sendMessage(
 }
 
 // Fetch all messages for the conversation
-export async function fetchMessages(role: "A" | "B"): Promise<Message[]> {
+export async function fetchMessages(): Promise<Message[]> {
   try {
-    const response = await fetch(`${API_BASE}/api/messages`, {
-      method: "GET",
-      headers: {
-        ...getAuthHeader(role),
-      },
-    });
+    const response = await authorizedFetch("/api/messages");
     if (!response.ok) {
       console.error("Failed to fetch messages:", response.status);
       return [];
@@ -136,17 +316,9 @@ export async function fetchMessages(role: "A" | "B"): Promise<Message[]> {
 }
 
 // Poll for new messages (used for real-time updates)
-export async function pollMessages(
-  role: "A" | "B",
-  since: number = 0
-): Promise<Message[]> {
+export async function pollMessages(since: number = 0): Promise<Message[]> {
   try {
-    const response = await fetch(`${API_BASE}/api/poll?since=${since}`, {
-      method: "GET",
-      headers: {
-        ...getAuthHeader(role),
-      },
-    });
+    const response = await authorizedFetch(`/api/poll?since=${since}`);
     if (!response.ok) return [];
     return await response.json();
   } catch (error) {
@@ -160,16 +332,12 @@ export async function pollMessages(
 // NOT persisted, only held in memory on server
 // ============================================
 
-export async function sendTypingEvent(
-  role: "A" | "B",
-  isTyping: boolean
-): Promise<void> {
+export async function sendTypingEvent(isTyping: boolean): Promise<void> {
   try {
-    await fetch(`${API_BASE}/api/typing`, {
+    await authorizedFetch("/api/typing", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        ...getAuthHeader(role),
       },
       body: JSON.stringify({ isTyping }),
     });
@@ -178,14 +346,9 @@ export async function sendTypingEvent(
   }
 }
 
-export async function getTypingStatus(role: "A" | "B"): Promise<boolean> {
+export async function getTypingStatus(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE}/api/typing`, {
-      method: "GET",
-      headers: {
-        ...getAuthHeader(role),
-      },
-    });
+    const response = await authorizedFetch("/api/typing");
     if (!response.ok) return false;
     const data = await response.json();
     return data.isTyping || false;
@@ -199,16 +362,12 @@ export async function getTypingStatus(role: "A" | "B"): Promise<boolean> {
 // Only activates when chat screen is visibly open
 // ============================================
 
-export async function sendReadReceipt(
-  role: "A" | "B",
-  messageIds: string[]
-): Promise<void> {
+export async function sendReadReceipt(messageIds: string[]): Promise<void> {
   try {
-    await fetch(`${API_BASE}/api/read`, {
+    await authorizedFetch("/api/read", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        ...getAuthHeader(role),
       },
       body: JSON.stringify({ messageIds }),
     });
@@ -219,15 +378,7 @@ export async function sendReadReceipt(
 
 export async function getReadStatus(messageId: string): Promise<boolean> {
   try {
-    const pairing = await getPairing();
-    if (!pairing) return false;
-
-    const response = await fetch(`${API_BASE}/api/read/${messageId}`, {
-      method: "GET",
-      headers: {
-        ...getAuthHeader(pairing.role),
-      },
-    });
+    const response = await authorizedFetch(`/api/read/${messageId}`);
     if (!response.ok) return false;
     const data = await response.json();
     return data.read || false;
@@ -235,3 +386,43 @@ export async function getReadStatus(messageId: string): Promise<boolean> {
     return false;
   }
 }
+
+// ============================================
+// DURESS ALERTS - Raised when the duress code is entered
+// The partner sees the alert until they acknowledge it
+// ============================================
+
+// Takes the device's credentials instead of reading them, since a wipe
+// may erase them while the alert is on its way
+export async function sendDuressAlert(
+  deviceId: string,
+  deviceSecret: string,
+): Promise<boolean> {
+  try {
+    const response = await fetchOnce(deviceId, deviceSecret, "/api/duress");
+    return response?.ok ?? false;
+  } catch (error) {
+    console.error("Error sending duress alert:", error);
+    return false;
+  }
+}
+
+// When the partner raised an alert, or null if there is none
+export async function getDuressAlert(): Promise<number | null> {
+  try {
+    const response = await authorizedFetch("/api/duress");
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.raisedAt ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function acknowledgeDuressAlert(): Promise<void> {
+  try {
+    await authorizedFetch("/api/duress", { method: "DELETE" });
+  } catch (error) {
+    console.error("Error acknowledging duress alert:", error);
+  }
+}
@@ -0,0 +1,117 @@
+// ============================================
+// DATE CALCULATION - Arithmetic on plain calendar dates
+// Dates carry no time of day or zone, so a day is always one day,
+// even across daylight-saving changes
+// ============================================
+
+export interface CalendarDate {
+  year: number;
+  // 1–12
+  month: number;
+  day: number;
+}
+
+export interface CalendarDifference {
+  years: number;
+  months: number;
+  days: number;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+// Days since 1970-01-01; setUTCFullYear keeps years below 100 intact,
+// which Date.UTC would shift into the 1900s
+function toDayNumber({ year, month, day }: CalendarDate): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return Math.round(date.getTime() / MS_PER_DAY);
+}
+
+function fromDayNumber(dayNumber: number): CalendarDate {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+export function today(): CalendarDate {
+  const now = new Date();
+  return {
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+    day: now.getDate(),
+  };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return (
+    toDayNumber({ year, month: month + 1, day: 1 }) -
+    toDayNumber({ year, month, day: 1 })
+  );
+}
+
+export function isValidDate({ year, month, day }: CalendarDate): boolean {
+  return (
+    [year, month, day].every(Number.isInteger) &&
+    year >= 1 &&
+    year <= 9999 &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth(year, month)
+  );
+}
+
+// Negative when `to` is before `from`
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+// Jan 31 + 1 month is the last day of February, not March 3
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+// Whole years, months and days from the earlier date to the later one
+export function calendarDifference(
+  from: CalendarDate,
+  to: CalendarDate,
+): CalendarDifference {
+  const [start, end] = daysBetween(from, to) < 0 ? [to, from] : [from, to];
+  let months = (end.year - start.year) * 12 + end.month - start.month;
+  if (end.day < start.day) months--;
+  return {
+    years: Math.floor(months / 12),
+    months: months % 12,
+    days: daysBetween(addMonths(start, months), end),
+  };
+}
+
+// 0 is Sunday, matching Date.getDay; 1970-01-01 was a Thursday
+export function weekday(date: CalendarDate): number {
+  return (((toDayNumber(date) + 4) % 7) + 7) % 7;
+}
+
+export function dayOfYear(date: CalendarDate): number {
+  return daysBetween({ year: date.year, month: 1, day: 1 }, date) + 1;
+}
+
+// In the device's language, e.g. "Tuesday, 3 March 2026"
+export function formatCalendarDate(
+  date: CalendarDate,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "full" },
+): string {
+  return new Intl.DateTimeFormat(undefined, {
+    ...options,
+    timeZone: "UTC",
+  }).format(new Date(toDayNumber(date) * MS_PER_DAY));
+}
@@ -0,0 +1,322 @@
+// ============================================
+// DECIMAL - Arbitrary-precision decimal arithmetic
+// value = coefficient × 10^exponent, backed by BigInt
+// Keeps 0.1 + 0.2 === 0.3 like a stock phone calculator
+// ============================================
+
+export type RoundingMode = "half-up" | "half-even" | "down";
+
+export interface DecimalContext {
+  // Maximum number of significant digits kept by inexact operations
+  precision: number;
+  rounding: RoundingMode;
+}
+
+export const DEFAULT_DECIMAL_CONTEXT: DecimalContext = {
+  precision: 34,
+  rounding: "half-up",
+};
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function digitCount(value: bigint): number {
+  return value === 0n ? 1 : abs(value).toString().length;
+}
+
+export class Decimal {
+  readonly coefficient: bigint;
+  readonly exponent: number;
+
+  static readonly ZERO = new Decimal(0n, 0);
+  static readonly ONE = new Decimal(1n, 0);
+
+  // Trailing zeros are always folded into the exponent
+  private constructor(coefficient: bigint, exponent: number) {
+    if (coefficient === 0n) {
+      this.coefficient = 0n;
+      this.exponent = 0;
+      return;
+    }
+    while (coefficient % 10n === 0n) {
+      coefficient /= 10n;
+      exponent++;
+    }
+    this.coefficient = coefficient;
+    this.exponent = exponent;
+  }
+
+  static from(value: Decimal | string | number | bigint): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === "bigint") return new Decimal(value, 0);
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Cannot convert ${value} to Decimal`);
+      }
+      // String(number) gives the shortest round-tripping representation
+      return Decimal.parse(String(value));
+    }
+    return Decimal.parse(value);
+  }
+
+  static parse(text: string): Decimal {
+    const match = DECIMAL_PATTERN.exec(text.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new SyntaxError(`Invalid decimal "${text}"`);
+    }
+    const [, sign, integerPart = "", fractionPart = "", exponentPart] = match;
+    const digits = `${integerPart}${fractionPart}` || "0";
+    const coefficient = BigInt(digits) * (sign === "-" ? -1n : 1n);
+    const exponent = Number(exponentPart ?? 0) - fractionPart.length;
+    return new Decimal(coefficient, exponent);
+  }
+
+  // ============================================
+  // INSPECTION
+  // ============================================
+
+  isZero(): boolean {
+    return this.coefficient === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < 0n;
+  }
+
+  isInteger(): boolean {
+    return this.exponent >= 0;
+  }
+
+  // Number of significant digits in the coefficient
+  precision(): number {
+    return digitCount(this.coefficient);
+  }
+
+  // Exponent of the most significant digit, e.g. 1234.5 -> 3
+  adjustedExponent(): number {
+    return this.exponent + this.precision() - 1;
+  }
+
+  compare(other: Decimal): -1 | 0 | 1 {
+    const difference = this.sub(other).coefficient;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  }
+
+  equals(other: Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  // ============================================
+  // ARITHMETIC
+  // ============================================
+
+  negate(): Decimal {
+    return new Decimal(-this.coefficient, this.exponent);
+  }
+
+  abs(): Decimal {
+    return this.isNegative() ? this.negate() : this;
+  }
+
+  add(other: Decimal): Decimal {
+    const exponent = Math.min(this.exponent, other.exponent);
+    return new Decimal(
+      this.coefficient * pow10(this.exponent - exponent) +
+        other.coefficient * pow10(other.exponent - exponent),
+      exponent,
+    );
+  }
+
+  sub(other: Decimal): Decimal {
+    return this.add(other.negate());
+  }
+
+  mul(
+    other: Decimal,
+    context: DecimalContext = DEFAULT_DECIMAL_CONTEXT,
+  ): Decimal {
+    return new Decimal(
+      this.coefficient * other.coefficient,
+      this.exponent + other.exponent,
+    ).round(context.precision, context.rounding);
+  }
+
+  div(
+    other: Decimal,
+    context: DecimalContext = DEFAULT_DECIMAL_CONTEXT,
+  ): Decimal {
+    if (other.isZero()) {
+      throw new RangeError("Division by zero");
+    }
+    if (this.isZero()) return Decimal.ZERO;
+
+    // Scale the dividend so the quotient carries two guard digits
+    const shift = Math.max(
+      0,
+      context.precision + other.precision() - this.precision() + 2,
+    );
+    const dividend = this.coefficient * pow10(shift);
+    let quotient = dividend / other.coefficient;
+    let exponent = this.exponent - other.exponent - shift;
+
+    // Sticky digit so an inexact quotient never looks like an exact tie
+    if (dividend % other.coefficient !== 0n) {
+      quotient = quotient * 10n + (quotient < 0n ? -1n : 1n);
+      exponent--;
+    }
+
+    return new Decimal(quotient, exponent).round(
+      context.precision,
+      context.rounding,
+    );
+  }
+
+  // Integer powers only; callers handle fractional exponents
+  pow(
+    power: number,
+    context: DecimalContext = DEFAULT_DECIMAL_CONTEXT,
+  ): Decimal {
+    if (!Number.isInteger(power)) {
+      throw new RangeError("Decimal.pow requires an integer exponent");
+    }
+    if (power < 0) {
+      return Decimal.ONE.div(this.pow(-power, context), context);
+    }
+
+    const working = { ...context, precision: context.precision + 4 };
+    let result = Decimal.ONE;
+    let base: Decimal = this;
+    let remaining = power;
+    while (remaining > 0) {
+      if (remaining % 2 === 1) result = result.mul(base, working);
+      remaining = Math.floor(remaining / 2);
+      if (remaining > 0) base = base.mul(base, working);
+    }
+    return result.round(context.precision, context.rounding);
+  }
+
+  sqrt(context: DecimalContext = DEFAULT_DECIMAL_CONTEXT): Decimal {
+    if (this.isNegative()) {
+      throw new RangeError("Square root of a negative number");
+    }
+    if (this.isZero()) return Decimal.ZERO;
+
+    // Scale to an even exponent with enough digits for the target precision
+    let shift = Math.max(0, 2 * (context.precision + 2) - this.precision());
+    if ((this.exponent - shift) % 2 !== 0) shift++;
+    const radicand = this.coefficient * pow10(shift);
+
+    // Integer Newton iteration from an overestimate
+    let root = pow10(Math.ceil(digitCount(radicand) / 2));
+    for (;;) {
+      const next = (root + radicand / root) / 2n;
+      if (next >= root) break;
+      root = next;
+    }
+
+    let exponent = (this.exponent - shift) / 2;
+    if (root * root !== radicand) {
+      root = root * 10n + 1n;
+      exponent--;
+    }
+    return new Decimal(root, exponent).round(
+      context.precision,
+      context.rounding,
+    );
+  }
+
+  // ============================================
+  // ROUNDING
+  // ============================================
+
+  // Round to a number of significant digits
+  round(
+    significantDigits: number,
+    mode: RoundingMode = DEFAULT_DECIMAL_CONTEXT.rounding,
+  ): Decimal {
+    const drop = this.precision() - significantDigits;
+    if (drop <= 0) return this;
+    return this.roundAt(this.exponent + drop, mode);
+  }
+
+  // Round to a fixed number of digits after the decimal point
+  toDecimalPlaces(
+    places: number,
+    mode: RoundingMode = DEFAULT_DECIMAL_CONTEXT.rounding,
+  ): Decimal {
+    if (this.exponent >= -places) return this;
+    return this.roundAt(-places, mode);
+  }
+
+  // Drop every digit below 10^targetExponent
+  private roundAt(targetExponent: number, mode: RoundingMode): Decimal {
+    const divisor = pow10(targetExponent - this.exponent);
+    const magnitude = abs(this.coefficient);
+    let quotient = magnitude / divisor;
+    const twiceRemainder = (magnitude % divisor) * 2n;
+
+    const roundUp =
+      mode === "half-up"
+        ? twiceRemainder >= divisor
+        : mode === "half-even"
+          ? twiceRemainder > divisor ||
+            (twiceRemainder === divisor && quotient % 2n === 1n)
+          : false;
+    if (roundUp) quotient++;
+
+    return new Decimal(
+      this.isNegative() ? -quotient : quotient,
+      targetExponent,
+    );
+  }
+
+  // ============================================
+  // CONVERSION
+  // ============================================
+
+  toNumber(): number {
+    return Number(`${this.coefficient}e${this.exponent}`);
+  }
+
+  // Plain positional notation with trailing zeros trimmed
+  toString(): string {
+    const sign = this.isNegative() ? "-" : "";
+    const digits = abs(this.coefficient).toString();
+
+    if (this.exponent >= 0) {
+      return sign + digits + "0".repeat(this.exponent);
+    }
+
+    const pointIndex = digits.length + this.exponent;
+    if (pointIndex > 0) {
+      return `${sign}${digits.slice(0, pointIndex)}.${digits.slice(pointIndex)}`;
+    }
+    return `${sign}0.${"0".repeat(-pointIndex)}${digits}`;
+  }
+
+  // Scientific notation such as 1.25E20 or -3E-9
+  toExponential(): string {
+    const sign = this.isNegative() ? "-" : "";
+    const digits = abs(this.coefficient).toString();
+    const mantissa =
+      digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+    return `${sign}${mantissa}E${this.adjustedExponent()}`;
+  }
+
+  // Shortest form that fits a display of `maxDigits` significant digits
+  toDisplayString(maxDigits: number): string {
+    const rounded = this.round(maxDigits);
+    const adjusted = rounded.adjustedExponent();
+    if (adjusted >= maxDigits || adjusted < -6) {
+      return rounded.toExponential();
+    }
+    return rounded.toString();
+  }
+}
@@ -0,0 +1,31 @@
+import { Message } from "@/lib/chat-api";
+
+// ============================================
+// DURESS - The decoy chat the duress sequence can open
+// Everyday small talk, dated relative to now and newest first, as the
+// inverted message list expects. The other option, a silent wipe, is
+// wipeConversation in unpair.ts.
+// ============================================
+const DECOY_LINES: { fromMe: boolean; text: string; minutesAgo: number }[] = [
+  { fromMe: false, text: "Are you still coming Saturday?", minutesAgo: 1440 },
+  { fromMe: true, text: "Yes! What should I bring?", minutesAgo: 1432 },
+  { fromMe: false, text: "Maybe a salad? We have drinks", minutesAgo: 1425 },
+  { fromMe: true, text: "Sure, I'll do the pasta one", minutesAgo: 1420 },
+  { fromMe: false, text: "Perfect 👍", minutesAgo: 1418 },
+  { fromMe: true, text: "Did you send me the address?", minutesAgo: 185 },
+  { fromMe: false, text: "Oh sorry, I'll text it later", minutesAgo: 160 },
+  { fromMe: true, text: "No rush", minutesAgo: 158 },
+  { fromMe: false, text: "Running late from work today", minutesAgo: 42 },
+  { fromMe: true, text: "Ok, see you when you're back", minutesAgo: 40 },
+];
+
+export function decoyConversation(role: "A" | "B", now: number): Message[] {
+  const partner = role === "A" ? "B" : "A";
+  return DECOY_LINES.map((line, index) => ({
+    id: `decoy_${index}`,
+    text: line.text,
+    sender: line.fromMe ? role : partner,
+    timestamp: now - line.minutesAgo * 60 * 1000,
+    read: true,
+  })).reverse();
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import { Decimal } from "@/lib/decimal";
+import { solveLinearSystem, solvePolynomial } from "@/lib/equation-solver";
+
+function decimals(values: (number | string)[]): Decimal[] {
+  return values.map((value) => Decimal.from(value));
+}
+
+function solveLinear(
+  coefficients: (number | string)[][],
+  constants: (number | string)[],
+) {
+  const solution = solveLinearSystem(
+    coefficients.map(decimals),
+    decimals(constants),
+  );
+  return solution.kind === "solved"
+    ? solution.values.map((value) => value.toString())
+    : solution.kind;
+}
+
+describe("solveLinearSystem", () => {
+  it("solves a well-posed system exactly", () => {
+    expect(
+      solveLinear(
+        [
+          [2, 1],
+          [1, 3],
+        ],
+        [5, 10],
+      ),
+    ).toEqual(["1", "3"]);
+    expect(
+      solveLinear(
+        [
+          [3, 0],
+          [0, 3],
+        ],
+        [1, 2],
+      ),
+    ).toEqual([
+      "0.333333333333333333333333333333",
+      "0.666666666666666666666666666667",
+    ]);
+  });
+
+  it("tells singular systems apart", () => {
+    const singular = [
+      [1, 2],
+      [2, 4],
+    ];
+    expect(solveLinear(singular, [3, 6])).toBe("infinite");
+    expect(solveLinear(singular, [3, 7])).toBe("none");
+  });
+
+  it("clears residue left by inexact division", () => {
+    const third = Decimal.ONE.div(Decimal.from(3)).toString();
+    expect(
+      solveLinear(
+        [
+          [1, 1, 1],
+          [1, 2, 3],
+          [1, 3, 6],
+        ],
+        [third, third, third],
+      ),
+    ).toEqual(["0.333333333333333333333333333333", "0", "0"]);
+  });
+
+  it("keeps small coefficients that are part of the system", () => {
+    expect(
+      solveLinear(
+        [
+          ["1E-30", 0],
+          [0, 1],
+        ],
+        ["1E-30", 1],
+      ),
+    ).toEqual(["1", "1"]);
+    expect(
+      solveLinear(
+        [
+          ["1E-30", "1E-30"],
+          ["1E-30", "2E-30"],
+        ],
+        ["3E-30", "5E-30"],
+      ),
+    ).toEqual(["1", "2"]);
+  });
+});
+
+describe("solvePolynomial", () => {
+  it("finds repeated and distinct real roots", () => {
+    const roots = (coefficients: number[]) => {
+      const solution = solvePolynomial(decimals(coefficients));
+      return solution.kind === "solved"
+        ? solution.values.map((root) => root.real.toString())
+        : solution.kind;
+    };
+    expect(roots([1, -2, 1])).toEqual(["1", "1"]);
+    expect(roots([1, -3, 2])).toEqual(["1", "2"]);
+    expect(roots([1e-20, -3e-20, 2e-20])).toEqual(["1", "2"]);
+    expect(roots([0, 2, -4])).toEqual(["2"]);
+  });
+
+  it("solves cubics", () => {
+    const roots = (coefficients: (number | string)[]) => {
+      const solution = solvePolynomial(decimals(coefficients));
+      return solution.kind === "solved"
+        ? solution.values.map((root) => root.real.toString())
+        : solution.kind;
+    };
+    expect(roots([1, -6, 11, -6])).toEqual(["1", "2", "3"]);
+    expect(roots([1, 0, 0, 0])).toEqual(["0", "0", "0"]);
+  });
+
+  it("turns away cubics whose coefficients overrun floats", () => {
+    for (const coefficients of [
+      [1, "1E200", 1, 1],
+      ["1E-400", 1, 1, 1],
+      ["1E400", 1, 1, 1],
+    ]) {
+      expect(solvePolynomial(decimals(coefficients)).kind).toBe("out_of_range");
+    }
+  });
+});
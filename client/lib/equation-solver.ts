@@ -0,0 +1,220 @@
+// ============================================
+// EQUATION SOLVER
+// Linear systems by Gaussian elimination on exact decimals,
+// polynomial roots up to cubic
+// ============================================
+
+import { Decimal } from "@/lib/decimal";
+
+export type Solution<T> =
+  | { kind: "solved"; values: T[] }
+  | { kind: "none" }
+  | { kind: "infinite" };
+
+// The cubic formula works in floats, which some coefficients overrun
+export type PolynomialSolution =
+  | Solution<ComplexRoot>
+  | { kind: "out_of_range" };
+
+export interface ComplexRoot {
+  real: Decimal;
+  imaginary: Decimal;
+}
+
+// A result this many digits below the numbers it came from is
+// rounding residue, not a value
+const NEGLIGIBLE_DIGITS = 25;
+
+// Digits trusted from the float cubic formula
+const FLOAT_DIGITS = 15;
+
+function isNegligible(value: Decimal, scale: Decimal): boolean {
+  if (value.isZero()) return true;
+  if (scale.isZero()) return false;
+  return (
+    value.adjustedExponent() < scale.adjustedExponent() - NEGLIGIBLE_DIGITS
+  );
+}
+
+function larger(a: Decimal, b: Decimal): Decimal {
+  return a.abs().compare(b.abs()) >= 0 ? a.abs() : b.abs();
+}
+
+// Rounds away residue such as 0.99999…9 from repeated division, and
+// drops a result that is only residue next to the scale it came from
+function clean(value: Decimal, scale: Decimal = value): Decimal {
+  return isNegligible(value, scale) ? Decimal.ZERO : value.round(30);
+}
+
+// ============================================
+// LINEAR SYSTEMS - coefficients[i][j] · unknown[j] = constants[i]
+// ============================================
+export function solveLinearSystem(
+  coefficients: Decimal[][],
+  constants: Decimal[],
+): Solution<Decimal> {
+  const size = constants.length;
+  const rows = coefficients.map((row, index) => [...row, constants[index]]);
+
+  let pivotRow = 0;
+  const pivotColumns: number[] = [];
+
+  for (let column = 0; column < size && pivotRow < size; column++) {
+    // Partial pivoting: the largest magnitude keeps rounding smallest
+    let best = pivotRow;
+    for (let row = pivotRow + 1; row < size; row++) {
+      if (rows[row][column].abs().compare(rows[best][column].abs()) > 0) {
+        best = row;
+      }
+    }
+    // Residue was cleared during elimination, so any nonzero entry is real
+    if (rows[best][column].isZero()) continue;
+    [rows[pivotRow], rows[best]] = [rows[best], rows[pivotRow]];
+
+    const pivot = rows[pivotRow][column];
+    rows[pivotRow] = rows[pivotRow].map((value) => value.div(pivot));
+
+    for (let row = 0; row < size; row++) {
+      if (row === pivotRow) continue;
+      const factor = rows[row][column];
+      if (factor.isZero()) continue;
+      rows[row] = rows[row].map((value, index) => {
+        const product = factor.mul(rows[pivotRow][index]);
+        return clean(value.sub(product), larger(value, product));
+      });
+    }
+
+    pivotColumns.push(column);
+    pivotRow++;
+  }
+
+  // A row reduced to 0 = c with c ≠ 0 is a contradiction
+  for (let row = pivotRow; row < size; row++) {
+    if (!rows[row][size].isZero()) return { kind: "none" };
+  }
+  if (pivotColumns.length < size) return { kind: "infinite" };
+
+  return {
+    kind: "solved",
+    values: rows.map((row) => clean(row[size])),
+  };
+}
+
+// ============================================
+// POLYNOMIALS - coefficients from the highest power down
+// ============================================
+
+function realRoot(value: Decimal, scale: Decimal = value): ComplexRoot {
+  return { real: clean(value, scale), imaginary: Decimal.ZERO };
+}
+
+function fromFloat(value: number): Decimal {
+  const rounded = Decimal.from(value).round(FLOAT_DIGITS);
+  return Math.abs(value) < 1e-12 ? Decimal.ZERO : rounded;
+}
+
+function solveQuadratic(a: Decimal, b: Decimal, c: Decimal): ComplexRoot[] {
+  const twoA = a.add(a);
+  const square = b.mul(b);
+  const product = Decimal.from(4).mul(a).mul(c);
+  const discriminant = square.sub(product);
+  const vertex = b.negate().div(twoA);
+
+  if (isNegligible(discriminant, larger(square, product))) {
+    return [realRoot(vertex), realRoot(vertex)];
+  }
+
+  const offset = discriminant.abs().sqrt().div(twoA.abs());
+  if (discriminant.isNegative()) {
+    return [
+      { real: clean(vertex), imaginary: offset },
+      { real: clean(vertex), imaginary: offset.negate() },
+    ];
+  }
+  const scale = larger(vertex, offset);
+  return [
+    realRoot(vertex.sub(offset), scale),
+    realRoot(vertex.add(offset), scale),
+  ];
+}
+
+// Cardano's method on the depressed cubic t³ + pt + q = 0, x = t − B/3.
+// Null when the coefficients don't fit in floats, e.g. 1E400 or 1E-400
+// as the leading one
+function solveCubic(coefficients: Decimal[]): ComplexRoot[] | null {
+  const [a, b, c, d] = coefficients.map((value) => value.toNumber());
+  const B = b / a;
+  const C = c / a;
+  const D = d / a;
+  const p = C - (B * B) / 3;
+  const q = (2 * B * B * B) / 27 - (B * C) / 3 + D;
+  const shift = -B / 3;
+  const discriminant = (q / 2) ** 2 + (p / 3) ** 3;
+  const tolerance = 1e-12 * Math.max(1, (q / 2) ** 2, Math.abs(p / 3) ** 3);
+  const inputs = [a, b, c, d, B, C, D, p, q, discriminant, tolerance];
+  if (a === 0 || !inputs.every(Number.isFinite)) return null;
+
+  const real = (t: number) => ({
+    real: fromFloat(t + shift),
+    imaginary: Decimal.ZERO,
+  });
+
+  if (Math.abs(discriminant) <= tolerance) {
+    if (Math.abs(p) <= 1e-12) return [real(0), real(0), real(0)];
+    const single = (3 * q) / p;
+    const double = (-3 * q) / (2 * p);
+    return [real(single), real(double), real(double)].sort((x, y) =>
+      x.real.compare(y.real),
+    );
+  }
+
+  if (discriminant > 0) {
+    const root = Math.sqrt(discriminant);
+    const u = Math.cbrt(-q / 2 + root);
+    const v = Math.cbrt(-q / 2 - root);
+    const imaginary = fromFloat(((u - v) * Math.sqrt(3)) / 2);
+    const conjugateReal = fromFloat(-(u + v) / 2 + shift);
+    return [
+      real(u + v),
+      { real: conjugateReal, imaginary: imaginary.abs() },
+      { real: conjugateReal, imaginary: imaginary.abs().negate() },
+    ];
+  }
+
+  // Three real roots, trigonometric form avoids complex cube roots
+  const radius = 2 * Math.sqrt(-p / 3);
+  // Clamped, since rounding can carry the cosine just past ±1
+  const cosine = ((3 * q) / (2 * p)) * Math.sqrt(-3 / p);
+  const angle = Math.acos(Math.min(1, Math.max(-1, cosine))) / 3;
+  return [0, 1, 2]
+    .map((k) => real(radius * Math.cos(angle - (2 * Math.PI * k) / 3)))
+    .sort((x, y) => x.real.compare(y.real));
+}
+
+export function solvePolynomial(coefficients: Decimal[]): PolynomialSolution {
+  // Leading zeros lower the degree, e.g. 0x² + 2x − 4 is linear
+  const firstNonZero = coefficients.findIndex((value) => !value.isZero());
+  if (firstNonZero === -1) return { kind: "infinite" };
+
+  const terms = coefficients.slice(firstNonZero);
+  switch (terms.length) {
+    case 1:
+      return { kind: "none" };
+    case 2:
+      return {
+        kind: "solved",
+        values: [realRoot(terms[1].negate().div(terms[0]))],
+      };
+    case 3:
+      return {
+        kind: "solved",
+        values: solveQuadratic(terms[0], terms[1], terms[2]),
+      };
+    default: {
+      const roots = solveCubic(terms);
+      return roots
+        ? { kind: "solved", values: roots }
+        : { kind: "out_of_range" };
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { isOperator } from "@/lib/calculator-engine";
+
+// ============================================
+// EXPRESSION EDITOR
+// Cursor-aware editing of the calculator display text
+// Every edit returns a new state; the screen just stores it
+// ============================================
+
+export interface EditorState {
+  text: string;
+  // Index in `text` the next insertion goes to
+  cursor: number;
+}
+
+// Keypad insertions that are removed as a unit by backspace
+const ATOMIC_SEQUENCES = [
+  "sin⁻¹(",
+  "cos⁻¹(",
+  "tan⁻¹(",
+  "sin(",
+  "cos(",
+  "tan(",
+  "ln(",
+  "log(",
+  "√(",
+  // Programmer mode operators
+  " AND ",
+  " XOR ",
+  " MOD ",
+  " OR ",
+  " << ",
+  " >> ",
+  "NOT ",
+];
+
+// Includes hex digits and the E of scientific notation
+const NUMBER_CHAR = /[0-9A-F.]/;
+
+export function createEditorState(text: string): EditorState {
+  return { text, cursor: text.length };
+}
+
+export function insertText(state: EditorState, insertion: string): EditorState {
+  const { text, cursor } = state;
+  return {
+    text: text.slice(0, cursor) + insertion + text.slice(cursor),
+    cursor: cursor + insertion.length,
+  };
+}
+
+export function deleteBackward(state: EditorState): EditorState {
+  const { text, cursor } = state;
+  if (cursor === 0) return state;
+
+  const before = text.slice(0, cursor);
+  const sequence = ATOMIC_SEQUENCES.find((s) => before.endsWith(s));
+  const length = sequence?.length ?? 1;
+  const remaining = text.slice(0, cursor - length) + text.slice(cursor);
+
+  // Never leave an empty display behind
+  if (remaining === "") return createEditorState("0");
+  return { text: remaining, cursor: cursor - length };
+}
+
+// The run of digits and decimal points the cursor sits in
+function numberAround(state: EditorState): { start: number; end: number } {
+  const { text, cursor } = state;
+  let start = cursor;
+  let end = cursor;
+  while (start > 0 && NUMBER_CHAR.test(text[start - 1])) start--;
+  while (end < text.length && NUMBER_CHAR.test(text[end])) end++;
+  return { start, end };
+}
+
+export function insertDigit(state: EditorState, digit: string): EditorState {
+  const { start, end } = numberAround(state);
+
+  // A lone leading zero is replaced rather than extended to "05"
+  if (state.text.slice(start, end) === "0" && state.cursor === end) {
+    return insertText(
+      {
+        text: state.text.slice(0, start) + state.text.slice(end),
+        cursor: start,
+      },
+      digit,
+    );
+  }
+  return insertText(state, digit);
+}
+
+export function insertDecimal(state: EditorState): EditorState {
+  const { start, end } = numberAround(state);
+  if (state.text.slice(start, end).includes(".")) return state;
+
+  // ".5" reads better as "0.5"
+  return insertText(
+    state,
+    start === state.cursor && start === end ? "0." : ".",
+  );
+}
+
+export function insertOperator(
+  state: EditorState,
+  operator: string,
+): EditorState {
+  const { text, cursor } = state;
+  const previous = text[cursor - 1];
+  const next = text[cursor];
+
+  // Allow a negative operand after ×, ÷ or ^, e.g. 5×-3
+  if (
+    operator === "-" &&
+    (previous === "×" || previous === "÷" || previous === "^")
+  ) {
+    return insertText(state, operator);
+  }
+
+  // Only a leading minus makes sense at the very start
+  if (cursor === 0) {
+    return operator === "-" ? insertText(state, operator) : state;
+  }
+
+  // Replace the operator (or "×-" pair) just before the cursor
+  if (isOperator(previous)) {
+    const removeCount = isOperator(text[cursor - 2]) ? 2 : 1;
+    return insertText(
+      {
+        text: text.slice(0, cursor - removeCount) + text.slice(cursor),
+        cursor: cursor - removeCount,
+      },
+      operator,
+    );
+  }
+
+  // Replace an operator right after the cursor instead of doubling up
+  if (isOperator(next)) {
+    return {
+      text: text.slice(0, cursor) + operator + text.slice(cursor + 1),
+      cursor: cursor + 1,
+    };
+  }
+
+  return insertText(state, operator);
+}
+
+export function moveCursor(state: EditorState, position: number): EditorState {
+  return {
+    text: state.text,
+    cursor: Math.max(0, Math.min(state.text.length, position)),
+  };
+}
+
+// Where a minus sign negates rather than subtracts: at the start, after
+// an operator or "(", or after a spaced programmer operator such as " AND "
+function startsOperand(before: string): boolean {
+  const previous = before[before.length - 1];
+  return (
+    before === "" ||
+    isOperator(previous) ||
+    previous === "(" ||
+    previous === " "
+  );
+}
+
+// +/- flips only the number at the cursor, so 5+3 becomes 5+(-3)
+// rather than the whole expression being negated
+export function toggleSign(state: EditorState): EditorState {
+  const { text, cursor } = state;
+  // Right after 5+(-3) the cursor is past the bracket, not in the number
+  const { start, end } = numberAround(
+    text[cursor - 1] === ")" ? { text, cursor: cursor - 1 } : state,
+  );
+  if (start === end) return state;
+
+  const number = text.slice(start, end);
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const previous = before[before.length - 1];
+
+  if (before.endsWith("(-") && after.startsWith(")")) {
+    return {
+      text: before.slice(0, -2) + number + after.slice(1),
+      cursor: start - 2 + number.length,
+    };
+  }
+  if (previous === "-" && startsOperand(before.slice(0, -1))) {
+    return {
+      text: before.slice(0, -1) + number + after,
+      cursor: start - 1 + number.length,
+    };
+  }
+  // 5×-3 reads fine, but 5+-3 is bracketed as 5+(-3)
+  if (startsOperand(before) && previous !== "+" && previous !== "-") {
+    return {
+      text: before + "-" + number + after,
+      cursor: start + 1 + number.length,
+    };
+  }
+  return {
+    text: before + "(-" + number + ")" + after,
+    cursor: start + 2 + number.length,
+  };
+}
+
+// The single ( ) key of the Pixel and One UI keypads: it closes a bracket
+// when one is open and an operand has just ended, otherwise it opens one
+export function nextParenthesis(state: EditorState): "(" | ")" {
+  const before = state.text.slice(0, state.cursor);
+  let depth = 0;
+  for (const char of before) {
+    if (char === "(") depth++;
+    else if (char === ")") depth = Math.max(0, depth - 1);
+  }
+  return depth > 0 && !startsOperand(before) ? ")" : "(";
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { Decimal } from "@/lib/decimal";
+import { compoundInterest } from "@/lib/finance";
+
+describe("compoundInterest", () => {
+  it("compounds whole and part periods", () => {
+    const yearly = compoundInterest(
+      Decimal.from(1000),
+      Decimal.from(10),
+      Decimal.from(2),
+      1,
+    );
+    expect(yearly?.amount.toString()).toBe("1210");
+    expect(yearly?.interest.toString()).toBe("210");
+
+    const partYear = compoundInterest(
+      Decimal.from(1000),
+      Decimal.from(10),
+      Decimal.from(2.5),
+      1,
+    );
+    expect(partYear?.amount.toString()).toBe("1269.06");
+  });
+
+  it("allows losing everything, but not more", () => {
+    expect(
+      compoundInterest(
+        Decimal.from(1000),
+        Decimal.from(-100),
+        Decimal.ONE,
+        1,
+      )?.amount.toString(),
+    ).toBe("0");
+    expect(
+      compoundInterest(
+        Decimal.from(1000),
+        Decimal.from(-250),
+        Decimal.from(1.5),
+        1,
+      ),
+    ).toBeNull();
+  });
+
+  it("turns away more periods than can be counted or shown", () => {
+    for (const years of ["1E400", "1E50", "1000000"]) {
+      expect(
+        compoundInterest(
+          Decimal.from(1000),
+          Decimal.from(10),
+          Decimal.parse(years),
+          1,
+        ),
+      ).toBeNull();
+    }
+    expect(
+      compoundInterest(
+        Decimal.from(1000),
+        Decimal.ZERO,
+        Decimal.parse("1000000"),
+        12,
+      )?.amount.toString(),
+    ).toBe("1000");
+  });
+});
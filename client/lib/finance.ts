@@ -0,0 +1,187 @@
+// ============================================
+// FINANCE - Loans, compound interest, tips and discounts
+// Exact decimals throughout; amounts are rounded to cents where a
+// bank or till would round them. Rates are percentages.
+// ============================================
+
+import { Decimal } from "@/lib/decimal";
+
+export interface AmortizationRow {
+  month: number;
+  payment: Decimal;
+  interest: Decimal;
+  principal: Decimal;
+  balance: Decimal;
+}
+
+export interface LoanSummary {
+  payment: Decimal;
+  totalPaid: Decimal;
+  totalInterest: Decimal;
+  schedule: AmortizationRow[];
+}
+
+export interface CompoundInterest {
+  amount: Decimal;
+  interest: Decimal;
+}
+
+export interface TipSplit {
+  tip: Decimal;
+  total: Decimal;
+  perPerson: Decimal;
+}
+
+export interface PriceBreakdown {
+  saving: Decimal;
+  discounted: Decimal;
+  tax: Decimal;
+  total: Decimal;
+}
+
+const HUNDRED = Decimal.from(100);
+const CENT = Decimal.parse("0.01");
+const MONTHS_PER_YEAR = Decimal.from(12);
+
+// Longer terms are not loans anyone takes, and the schedule would be huge
+export const MAX_LOAN_MONTHS = 1200;
+
+// The calculator's own limit, 10^9999; past it the amount is no longer
+// a number worth showing
+const MAX_AMOUNT_EXPONENT = 9999;
+
+function cents(value: Decimal): Decimal {
+  return value.toDecimalPlaces(2);
+}
+
+function percentOf(value: Decimal, percent: Decimal): Decimal {
+  return value.mul(percent).div(HUNDRED);
+}
+
+// ============================================
+// LOANS - Fixed monthly payment (EMI) and its schedule
+// ============================================
+
+// P·r·(1+r)^n / ((1+r)^n − 1) with r the monthly rate
+export function monthlyPayment(
+  principal: Decimal,
+  annualRate: Decimal,
+  months: number,
+): Decimal {
+  const rate = annualRate.div(HUNDRED).div(MONTHS_PER_YEAR);
+  if (rate.isZero()) return principal.div(Decimal.from(months));
+
+  const growth = Decimal.ONE.add(rate).pow(months);
+  return principal.mul(rate).mul(growth).div(growth.sub(Decimal.ONE));
+}
+
+// Null for a term that is not a whole number of months in range
+export function amortize(
+  principal: Decimal,
+  annualRate: Decimal,
+  months: number,
+): LoanSummary | null {
+  if (!Number.isInteger(months) || months < 1 || months > MAX_LOAN_MONTHS) {
+    return null;
+  }
+  if (principal.isNegative() || annualRate.isNegative()) return null;
+
+  const rate = annualRate.div(HUNDRED).div(MONTHS_PER_YEAR);
+  const payment = cents(monthlyPayment(principal, annualRate, months));
+  const schedule: AmortizationRow[] = [];
+  let balance = principal;
+  let totalPaid = Decimal.ZERO;
+
+  for (let month = 1; month <= months; month++) {
+    const interest = cents(balance.mul(rate));
+    // The last payment absorbs the rounding of every earlier one
+    const due = month === months ? balance.add(interest) : payment;
+    const repaid = due.sub(interest);
+    balance = balance.sub(repaid);
+    totalPaid = totalPaid.add(due);
+    schedule.push({
+      month,
+      payment: due,
+      interest,
+      principal: repaid,
+      balance,
+    });
+  }
+
+  return {
+    payment,
+    totalPaid,
+    totalInterest: totalPaid.sub(principal),
+    schedule,
+  };
+}
+
+// ============================================
+// SAVINGS - A(t) = P(1 + r/n)^(n·t)
+// ============================================
+
+// Null when a period would lose more than everything, which has no
+// sensible growth (and no real power for a part period), or when there
+// are too many periods to count or the amount would pass 10^9999
+export function compoundInterest(
+  principal: Decimal,
+  annualRate: Decimal,
+  years: Decimal,
+  periodsPerYear: number,
+): CompoundInterest | null {
+  const periods = years.mul(Decimal.from(periodsPerYear));
+  const periodRate = annualRate.div(HUNDRED).div(Decimal.from(periodsPerYear));
+  const base = Decimal.ONE.add(periodRate);
+  if (base.isNegative()) return null;
+
+  // Decimal.pow takes whole periods; a part period (2.5 years compounded
+  // yearly) falls back to a float for just that fraction
+  const whole = Math.floor(periods.toNumber());
+  if (!Number.isSafeInteger(whole)) return null;
+  const magnitude =
+    Math.log10(principal.abs().toNumber()) +
+    Math.log10(base.toNumber()) * periods.toNumber();
+  if (magnitude > MAX_AMOUNT_EXPONENT) return null;
+
+  const fraction = periods.sub(Decimal.from(whole)).toNumber();
+  let growth = base.pow(whole);
+  if (fraction > 0) {
+    growth = growth.mul(Decimal.from(Math.pow(base.toNumber(), fraction)));
+  }
+
+  const amount = cents(principal.mul(growth));
+  return { amount, interest: amount.sub(principal) };
+}
+
+// ============================================
+// EVERYDAY - Tips and discounts
+// ============================================
+
+// Each person's share is rounded up so the bill is always covered
+export function splitTip(
+  bill: Decimal,
+  tipPercent: Decimal,
+  people: number,
+): TipSplit {
+  const tip = cents(percentOf(bill, tipPercent));
+  const total = bill.add(tip);
+  const share = total.div(Decimal.from(people));
+  const roundedDown = share.toDecimalPlaces(2, "down");
+  return {
+    tip,
+    total,
+    perPerson: roundedDown.equals(share) ? roundedDown : roundedDown.add(CENT),
+  };
+}
+
+// The discount comes off first and tax is charged on what is left
+export function applyDiscountAndTax(
+  price: Decimal,
+  discountPercent: Decimal,
+  taxPercent: Decimal,
+): PriceBreakdown {
+  const saving = cents(percentOf(price, discountPercent));
+  const discounted = price.sub(saving);
+  const tax = cents(percentOf(discounted, taxPercent));
+  return { saving, discounted, tax, total: discounted.add(tax) };
+}
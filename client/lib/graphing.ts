@@ -0,0 +1,244 @@
+// ============================================
+// GRAPHING - Plotting helpers for y = f(x)
+// Curves are sampled with floats for speed; the parser is the
+// same one the calculator uses, so every key works in a graph
+// ============================================
+
+import {
+  AngleMode,
+  ExpressionNode,
+  ScientificFunction,
+  parseExpression,
+} from "@/lib/calculator-engine";
+
+export type PlotFunction = (x: number) => number;
+
+export interface Viewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+const DEGREES = Math.PI / 180;
+
+// 171! is Infinity as a float anyway
+const MAX_FACTORIAL = 170;
+
+function applyFunction(
+  name: ScientificFunction,
+  x: number,
+  angleMode: AngleMode,
+): number {
+  const toRadians = angleMode === "deg" ? DEGREES : 1;
+  switch (name) {
+    case "sin":
+      return Math.sin(x * toRadians);
+    case "cos":
+      return Math.cos(x * toRadians);
+    case "tan":
+      return Math.tan(x * toRadians);
+    case "asin":
+      return Math.asin(x) / toRadians;
+    case "acos":
+      return Math.acos(x) / toRadians;
+    case "atan":
+      return Math.atan(x) / toRadians;
+    case "ln":
+      return Math.log(x);
+    case "log":
+      return Math.log10(x);
+    case "sqrt":
+      return Math.sqrt(x);
+  }
+}
+
+function factorial(value: number): number {
+  if (!Number.isInteger(value) || value < 0) return NaN;
+  if (value > MAX_FACTORIAL) return Infinity;
+  let result = 1;
+  for (let n = 2; n <= value; n++) result *= n;
+  return result;
+}
+
+function evaluateFloat(
+  node: ExpressionNode,
+  x: number,
+  angleMode: AngleMode,
+): number {
+  switch (node.type) {
+    case "number":
+      return Number(node.value);
+    case "constant":
+      return node.name === "π" ? Math.PI : Math.E;
+    case "variable":
+      return x;
+    case "unary": {
+      const operand = evaluateFloat(node.operand, x, angleMode);
+      return node.operator === "-" ? -operand : operand;
+    }
+    case "factorial":
+      return factorial(evaluateFloat(node.operand, x, angleMode));
+    case "percent":
+      return evaluateFloat(node.operand, x, angleMode) / 100;
+    case "function":
+      return applyFunction(
+        node.name,
+        evaluateFloat(node.argument, x, angleMode),
+        angleMode,
+      );
+    case "binary": {
+      const left = evaluateFloat(node.left, x, angleMode);
+      let right = evaluateFloat(node.right, x, angleMode);
+      // Same contextual percent as the calculator: a + b% is a + a·b/100
+      if (
+        (node.operator === "+" || node.operator === "-") &&
+        node.right.type === "percent"
+      ) {
+        right *= left;
+      }
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "×":
+          return left * right;
+        case "÷":
+          return left / right;
+        case "^":
+          return Math.pow(left, right);
+      }
+    }
+  }
+}
+
+// Throws ExpressionError for input the parser rejects
+export function compileFunction(
+  input: string,
+  angleMode: AngleMode,
+): PlotFunction {
+  const node = parseExpression(input);
+  return (x) => evaluateFloat(node, x, angleMode);
+}
+
+// Splits the curve wherever it is undefined or jumps off screen,
+// so tan(x) does not draw its asymptotes
+export function sampleCurve(
+  plot: PlotFunction,
+  viewport: Viewport,
+  samples: number,
+): GraphPoint[][] {
+  const segments: GraphPoint[][] = [];
+  const height = viewport.yMax - viewport.yMin;
+  let current: GraphPoint[] = [];
+
+  for (let i = 0; i <= samples; i++) {
+    const x = viewport.xMin + ((viewport.xMax - viewport.xMin) * i) / samples;
+    const y = plot(x);
+    const previous = current[current.length - 1];
+
+    if (
+      !Number.isFinite(y) ||
+      (previous && Math.abs(y - previous.y) > height * 2)
+    ) {
+      if (current.length > 1) segments.push(current);
+      current = Number.isFinite(y) ? [{ x, y }] : [];
+      continue;
+    }
+    current.push({ x, y });
+  }
+
+  if (current.length > 1) segments.push(current);
+  return segments;
+}
+
+// Bisection on every sign change between samples
+export function findRoots(
+  plot: PlotFunction,
+  xMin: number,
+  xMax: number,
+  samples: number,
+): number[] {
+  const roots: number[] = [];
+  const step = (xMax - xMin) / samples;
+  let previousX = xMin;
+  let previousY = plot(previousX);
+
+  for (let i = 1; i <= samples; i++) {
+    const x = xMin + step * i;
+    const y = plot(x);
+
+    if (previousY === 0) {
+      roots.push(previousX);
+    } else if (
+      Number.isFinite(previousY) &&
+      Number.isFinite(y) &&
+      Math.sign(previousY) !== Math.sign(y) &&
+      y !== 0
+    ) {
+      let low = previousX;
+      let high = x;
+      for (let iteration = 0; iteration < 60; iteration++) {
+        const middle = (low + high) / 2;
+        const value = plot(middle);
+        if (Math.sign(value) === Math.sign(plot(low))) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      const root = (low + high) / 2;
+      // A sign change across a pole (1/x at 0) is not a root
+      if (Math.abs(plot(root)) < Math.max(1e-6, step)) roots.push(root);
+    }
+
+    previousX = x;
+    previousY = y;
+  }
+
+  return roots;
+}
+
+export function findIntersections(
+  first: PlotFunction,
+  second: PlotFunction,
+  xMin: number,
+  xMax: number,
+  samples: number,
+): GraphPoint[] {
+  return findRoots((x) => first(x) - second(x), xMin, xMax, samples).map(
+    (x) => ({ x, y: first(x) }),
+  );
+}
+
+// Never more per axis than this, however the range rounds
+const MAX_TICKS = 100;
+
+// Axis ticks at 1, 2 or 5 × 10^n, roughly `target` per axis
+export function niceTicks(min: number, max: number, target: number): number[] {
+  const rough = (max - min) / target;
+  if (!(rough > 0) || !Number.isFinite(rough)) return [];
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step =
+    [1, 2, 5, 10].map((factor) => factor * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+
+  // Counted from an index, since adding a step far below the precision
+  // of the values would never move past max
+  const first = Math.ceil(min / step);
+  const ticks: number[] = [];
+  for (let i = 0; i < MAX_TICKS; i++) {
+    const tick = (first + i) * step;
+    if (tick > max) break;
+    // Snap away float noise such as 0.30000000000000004
+    const snapped = Number(tick.toPrecision(12));
+    if (ticks[ticks.length - 1] !== snapped) ticks.push(snapped);
+  }
+  return ticks;
+}
@@ -0,0 +1,140 @@
+import { Locale } from "expo-localization";
+
+// ============================================
+// LOCALE FORMAT - Region-specific separators for the display
+// The editor and engine always work on canonical text ("1234.5");
+// only what is drawn on screen is localized ("1.234,5", "12,34,567")
+// ============================================
+
+export type DigitGrouping = "standard" | "indian";
+
+export interface NumberLocale {
+  decimalSeparator: string;
+  groupSeparator: string;
+  grouping: DigitGrouping;
+}
+
+export const DEFAULT_NUMBER_LOCALE: NumberLocale = {
+  decimalSeparator: ".",
+  groupSeparator: ",",
+  grouping: "standard",
+};
+
+// Regions that group as 12,34,567 (lakh and crore)
+const INDIAN_GROUPING_REGIONS = ["IN", "BD", "NP"];
+
+export function toNumberLocale(locale: Locale | undefined): NumberLocale {
+  if (!locale) return DEFAULT_NUMBER_LOCALE;
+
+  const decimalSeparator =
+    locale.decimalSeparator ?? DEFAULT_NUMBER_LOCALE.decimalSeparator;
+  let groupSeparator =
+    locale.digitGroupingSeparator ?? DEFAULT_NUMBER_LOCALE.groupSeparator;
+  // Some platforms report the same character for both
+  if (groupSeparator === decimalSeparator) {
+    groupSeparator = decimalSeparator === "," ? "." : ",";
+  }
+
+  return {
+    decimalSeparator,
+    groupSeparator,
+    grouping: INDIAN_GROUPING_REGIONS.includes(locale.regionCode ?? "")
+      ? "indian"
+      : "standard",
+  };
+}
+
+export interface LocalizedText {
+  text: string;
+  // Index in `text` of every canonical index, including the end
+  positions: number[];
+}
+
+// Whether a separator goes before the digit that has `remaining`
+// digits (itself included) left in the integer part
+function startsGroup(remaining: number, grouping: DigitGrouping): boolean {
+  if (grouping === "indian" && remaining > 3) {
+    return (remaining - 3) % 2 === 0;
+  }
+  return remaining % 3 === 0;
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= "0" && char <= "9";
+}
+
+// Passing null leaves the text untouched, as programmer mode needs
+export function localizeExpression(
+  text: string,
+  locale: NumberLocale | null,
+): LocalizedText {
+  const positions: number[] = [];
+  let output = "";
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    // Integer part of a number, but not the digits of an E exponent
+    const previous = text[index - 1];
+    if (
+      locale &&
+      isDigit(char) &&
+      !isDigit(previous) &&
+      previous !== "." &&
+      !/E-?$/.test(text.slice(0, index))
+    ) {
+      let end = index;
+      while (isDigit(text[end])) end++;
+      for (let digit = index; digit < end; digit++) {
+        if (digit > index && startsGroup(end - digit, locale.grouping)) {
+          output += locale.groupSeparator;
+        }
+        positions.push(output.length);
+        output += text[digit];
+      }
+      index = end;
+      continue;
+    }
+
+    positions.push(output.length);
+    output += char === "." && locale ? locale.decimalSeparator : char;
+    index++;
+  }
+
+  positions.push(output.length);
+  return { text: output, positions };
+}
+
+// Maps a cursor in the localized text back to the canonical text
+export function toCanonicalCursor(
+  localized: LocalizedText,
+  cursor: number,
+): number {
+  let canonical = 0;
+  while (
+    canonical + 1 < localized.positions.length &&
+    localized.positions[canonical + 1] <= cursor
+  ) {
+    canonical++;
+  }
+  return canonical;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Typed or pasted text back to canonical form: "1.234,5" -> "1234.5"
+export function delocalizeExpression(
+  text: string,
+  locale: NumberLocale,
+): string {
+  const groupSeparator = /\s/.test(locale.groupSeparator)
+    ? /\s/g
+    : new RegExp(escapeRegExp(locale.groupSeparator), "g");
+  return text
+    .replace(groupSeparator, "")
+    .split(locale.decimalSeparator)
+    .join(".");
+}
@@ -0,0 +1,58 @@
+import { Decimal } from "@/lib/decimal";
+
+// ============================================
+// NUMBER FORMAT - Base-aware display formatting
+// Every value the calculator shows goes through formatNumber
+// ============================================
+
+export type NumberBase = 2 | 8 | 10 | 16;
+export type WordSize = 8 | 16 | 32 | 64;
+
+export const NUMBER_BASES: readonly NumberBase[] = [16, 10, 8, 2];
+export const WORD_SIZES: readonly WordSize[] = [8, 16, 32, 64];
+
+export const BASE_LABELS: Record<NumberBase, string> = {
+  16: "HEX",
+  10: "DEC",
+  8: "OCT",
+  2: "BIN",
+};
+
+// Fixed-width integers as used by programmer mode
+export interface IntegerFormat {
+  base: NumberBase;
+  wordSize: WordSize;
+  signed: boolean;
+}
+
+export type NumberFormat =
+  | { mode: "decimal"; maxDigits: number }
+  | ({ mode: "programmer" } & IntegerFormat);
+
+// Two's-complement wrap into the word, e.g. 255 + 1 is 0 in 8-bit unsigned
+export function wrapInteger(
+  value: bigint,
+  format: Pick<IntegerFormat, "wordSize" | "signed">,
+): bigint {
+  return format.signed
+    ? BigInt.asIntN(format.wordSize, value)
+    : BigInt.asUintN(format.wordSize, value);
+}
+
+// Decimal shows negatives with a sign; other bases show the raw bit pattern
+export function formatInteger(value: bigint, format: IntegerFormat): string {
+  const wrapped = wrapInteger(value, format);
+  if (format.base === 10) return wrapped.toString();
+  return BigInt.asUintN(format.wordSize, wrapped)
+    .toString(format.base)
+    .toUpperCase();
+}
+
+export function formatNumber(value: Decimal, format: NumberFormat): string {
+  if (format.mode === "decimal") {
+    return value.toDisplayString(format.maxDigits);
+  }
+  // Programmer values are whole numbers; drop any fraction toward zero
+  const integer = BigInt(value.toDecimalPlaces(0, "down").toString());
+  return formatInteger(integer, format);
+}
@@ -0,0 +1,58 @@
+import { Platform } from "react-native";
+import * as SecureStore from "expo-secure-store";
+
+import {
+  acceptPlainValues,
+  deleteEncryptedItem,
+  getEncryptedItem,
+  hasStorageKey,
+  setEncryptedItem,
+} from "@/lib/web-crypto-storage";
+
+// ============================================
+// PLATFORM STORAGE - Raw strings under string keys
+// Uses Android Keystore via expo-secure-store on native
+// Encrypts with WebCrypto on web; see web-crypto-storage.ts
+// Nothing here knows what the values mean; see secure-storage.ts
+// ============================================
+
+export async function setItem(key: string, value: string): Promise<void> {
+  if (Platform.OS === "web") {
+    await setEncryptedItem(key, value);
+  } else {
+    await SecureStore.setItemAsync(key, value);
+  }
+}
+
+export async function getItem(key: string): Promise<string | null> {
+  if (Platform.OS === "web") {
+    return await getEncryptedItem(key);
+  } else {
+    return await SecureStore.getItemAsync(key);
+  }
+}
+
+export async function deleteItem(key: string): Promise<void> {
+  if (Platform.OS === "web") {
+    await deleteEncryptedItem(key);
+  } else {
+    await SecureStore.deleteItemAsync(key);
+  }
+}
+
+// ============================================
+// PLAIN WEB VALUES - Left by builds from before web encryption
+// Readable only while migrations run, and only where no storage key
+// has ever been made; anywhere else they read as corrupt
+// ============================================
+export async function beginPlainValueMigration(): Promise<void> {
+  if (Platform.OS === "web") {
+    acceptPlainValues(!(await hasStorageKey()));
+  }
+}
+
+export function endPlainValueMigration(): void {
+  if (Platform.OS === "web") {
+    acceptPlainValues(false);
+  }
+}
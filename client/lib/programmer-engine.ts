@@ -0,0 +1,393 @@
+// ============================================
+// PROGRAMMER ENGINE
+// Fixed-width integer expressions in HEX/DEC/OCT/BIN with bitwise operators
+// Every intermediate result wraps to the word size like real hardware
+// ============================================
+
+import { ExpressionError } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import { IntegerFormat, NumberBase, wrapInteger } from "@/lib/number-format";
+
+export type ProgrammerOperator =
+  | "+"
+  | "-"
+  | "×"
+  | "÷"
+  | "MOD"
+  | "AND"
+  | "OR"
+  | "XOR"
+  | "<<"
+  | ">>";
+
+type ProgrammerToken =
+  | { type: "number"; value: bigint; position: number }
+  | { type: "operator"; value: ProgrammerOperator; position: number }
+  | { type: "not"; position: number }
+  | { type: "leftParen"; position: number }
+  | { type: "rightParen"; position: number };
+
+type ProgrammerNode =
+  | { type: "number"; value: bigint }
+  | { type: "negate"; operand: ProgrammerNode }
+  | { type: "not"; operand: ProgrammerNode }
+  | {
+      type: "binary";
+      operator: ProgrammerOperator;
+      left: ProgrammerNode;
+      right: ProgrammerNode;
+    };
+
+// Keypad spellings first, then typed ones; matched longest first
+const OPERATOR_ALIASES: Record<string, ProgrammerOperator | "NOT"> = {
+  AND: "AND",
+  XOR: "XOR",
+  NOT: "NOT",
+  MOD: "MOD",
+  OR: "OR",
+  "<<": "<<",
+  ">>": ">>",
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "×": "×",
+  "*": "×",
+  "÷": "÷",
+  "/": "÷",
+  "%": "MOD",
+  "&": "AND",
+  "|": "OR",
+  "^": "XOR",
+  "~": "NOT",
+};
+
+const OPERATOR_NAMES = Object.keys(OPERATOR_ALIASES).sort(
+  (a, b) => b.length - a.length,
+);
+
+// C-style precedence: OR < XOR < AND < shifts < + - < × ÷ MOD
+const PRECEDENCE: Record<ProgrammerOperator, number> = {
+  OR: 1,
+  XOR: 2,
+  AND: 3,
+  "<<": 4,
+  ">>": 4,
+  "+": 5,
+  "-": 5,
+  "×": 6,
+  "÷": 6,
+  MOD: 6,
+};
+
+const UNARY_PRECEDENCE = 7;
+
+const DIGITS = "0123456789ABCDEF";
+
+export function isDigitForBase(char: string, base: NumberBase): boolean {
+  const index = DIGITS.indexOf(char.toUpperCase());
+  return index !== -1 && index < base;
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+function tokenize(input: string, format: IntegerFormat): ProgrammerToken[] {
+  const tokens: ProgrammerToken[] = [];
+  const limit = 1n << BigInt(format.wordSize);
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const name = OPERATOR_NAMES.find((alias) => input.startsWith(alias, index));
+    if (name) {
+      const operator = OPERATOR_ALIASES[name];
+      tokens.push(
+        operator === "NOT"
+          ? { type: "not", position: index }
+          : { type: "operator", value: operator, position: index },
+      );
+      index += name.length;
+      continue;
+    }
+
+    if (/[0-9A-Fa-f]/.test(char)) {
+      const start = index;
+      let value = 0n;
+      while (index < input.length && /[0-9A-Fa-f]/.test(input[index])) {
+        if (!isDigitForBase(input[index], format.base)) {
+          throw new ExpressionError(
+            "syntax",
+            `"${input[index]}" is not a digit in this base`,
+            index,
+          );
+        }
+        value =
+          value * BigInt(format.base) +
+          BigInt(DIGITS.indexOf(input[index].toUpperCase()));
+        index++;
+      }
+
+      // A literal may use every bit of the word but no more
+      if (value >= limit) {
+        throw new ExpressionError(
+          "overflow",
+          "Number does not fit the word size",
+          start,
+        );
+      }
+      tokens.push({ type: "number", value, position: start });
+      continue;
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "leftParen", position: index });
+      index++;
+      continue;
+    }
+
+    if (char === ")") {
+      tokens.push({ type: "rightParen", position: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(
+      "syntax",
+      `Unexpected character "${char}"`,
+      index,
+    );
+  }
+
+  return tokens;
+}
+
+// ============================================
+// PARSER
+// Same shape as the decimal parser, minus implicit multiplication:
+// adjacent hex literals would be ambiguous
+// ============================================
+
+class ProgrammerParser {
+  private index = 0;
+
+  constructor(
+    private tokens: ProgrammerToken[],
+    private inputLength: number,
+  ) {}
+
+  parse(): ProgrammerNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("empty", "Expression is empty", 0);
+    }
+
+    const node = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(
+        extra.type === "rightParen" ? "unbalanced_parentheses" : "syntax",
+        "Unexpected token",
+        extra.position,
+      );
+    }
+    return node;
+  }
+
+  private peek(): ProgrammerToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): ProgrammerToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private parseBinary(minPrecedence: number): ProgrammerNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== "operator") break;
+
+      const precedence = PRECEDENCE[token.value];
+      if (precedence < minPrecedence) break;
+      this.next();
+
+      const right = this.parseBinary(precedence + 1);
+      left = { type: "binary", operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ProgrammerNode {
+    const token = this.peek();
+    if (token?.type === "not") {
+      this.next();
+      return { type: "not", operand: this.parseBinary(UNARY_PRECEDENCE) };
+    }
+    if (
+      token?.type === "operator" &&
+      (token.value === "-" || token.value === "+")
+    ) {
+      this.next();
+      const operand = this.parseBinary(UNARY_PRECEDENCE);
+      return token.value === "-" ? { type: "negate", operand } : operand;
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ProgrammerNode {
+    const token = this.next();
+
+    if (!token) {
+      throw new ExpressionError(
+        "incomplete",
+        "Expression ends unexpectedly",
+        this.inputLength,
+      );
+    }
+
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: token.value };
+
+      case "leftParen": {
+        if (this.peek()?.type === "rightParen") {
+          throw new ExpressionError(
+            "syntax",
+            "Empty parentheses",
+            token.position,
+          );
+        }
+        const inner = this.parseBinary(0);
+        const closing = this.peek();
+        // Missing closing parentheses are auto-closed
+        if (closing?.type === "rightParen") {
+          this.next();
+        } else if (closing) {
+          throw new ExpressionError("syntax", "Expected )", closing.position);
+        }
+        return inner;
+      }
+
+      case "rightParen":
+        throw new ExpressionError(
+          "unbalanced_parentheses",
+          "Unexpected )",
+          token.position,
+        );
+
+      case "not":
+      case "operator":
+        throw new ExpressionError(
+          "syntax",
+          "Unexpected operator",
+          token.position,
+        );
+    }
+  }
+}
+
+// ============================================
+// EVALUATOR
+// ============================================
+
+function shift(
+  value: bigint,
+  count: bigint,
+  direction: "<<" | ">>",
+  format: IntegerFormat,
+): bigint {
+  if (count < 0n) {
+    throw new ExpressionError("domain", "Shift count must not be negative");
+  }
+  // Shifting past the word empties it (or fills it with the sign bit)
+  if (count >= BigInt(format.wordSize)) {
+    return direction === ">>" && value < 0n ? -1n : 0n;
+  }
+  return direction === "<<" ? value << count : value >> count;
+}
+
+function evaluate(node: ProgrammerNode, format: IntegerFormat): bigint {
+  switch (node.type) {
+    case "number":
+      return wrapInteger(node.value, format);
+
+    case "negate":
+      return wrapInteger(-evaluate(node.operand, format), format);
+
+    case "not":
+      return wrapInteger(~evaluate(node.operand, format), format);
+
+    case "binary": {
+      const left = evaluate(node.left, format);
+      const right = evaluate(node.right, format);
+      switch (node.operator) {
+        case "+":
+          return wrapInteger(left + right, format);
+        case "-":
+          return wrapInteger(left - right, format);
+        case "×":
+          return wrapInteger(left * right, format);
+        case "÷":
+        case "MOD":
+          if (right === 0n) {
+            throw new ExpressionError("divide_by_zero", "Division by zero");
+          }
+          // BigInt division truncates toward zero, like C
+          return wrapInteger(
+            node.operator === "÷" ? left / right : left % right,
+            format,
+          );
+        case "AND":
+          return wrapInteger(left & right, format);
+        case "OR":
+          return wrapInteger(left | right, format);
+        case "XOR":
+          return wrapInteger(left ^ right, format);
+        case "<<":
+        case ">>":
+          return wrapInteger(shift(left, right, node.operator, format), format);
+      }
+    }
+  }
+}
+
+function parse(input: string, format: IntegerFormat): ProgrammerNode {
+  return new ProgrammerParser(tokenize(input, format), input.length).parse();
+}
+
+// Throws ExpressionError for input the parser rejects, without evaluating
+export function checkProgrammerSyntax(
+  input: string,
+  format: IntegerFormat,
+): void {
+  parse(input, format);
+}
+
+export function evaluateProgrammerExpression(
+  input: string,
+  format: IntegerFormat,
+): bigint {
+  return evaluate(parse(input, format), format);
+}
+
+// Convenience wrapper returning a Decimal so results share the
+// history, memory and formatting paths of the standard calculator
+export function calculateProgrammerExpression(
+  input: string,
+  format: IntegerFormat,
+): Decimal | null {
+  try {
+    return Decimal.from(evaluateProgrammerExpression(input, format));
+  } catch (error) {
+    if (error instanceof ExpressionError) return null;
+    throw error;
+  }
+}
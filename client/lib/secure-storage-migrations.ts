@@ -0,0 +1,121 @@
+import { Platform } from "react-native";
+
+import { deleteItem, getItem, setItem } from "@/lib/platform-storage";
+import { createUnlockSecret } from "@/lib/unlock-secret";
+
+// ============================================
+// SECURE STORAGE MIGRATIONS - One step per layout version
+// Each works on the raw entries as they were at its version, so the
+// keys and shapes here are spelled out rather than shared with
+// secure-storage.ts. Anything unreadable is left for the store's own
+// recovery to set aside.
+// ============================================
+
+const PAIRING_KEY = "calculator_pairing_data";
+const PAIRING_BACKUP_KEY = "calculator_pairing_data_backup";
+const CREDENTIALS_KEY = "calculator_credentials";
+const CREDENTIALS_BACKUP_KEY = "calculator_credentials_backup";
+const PREFERENCES_KEY = "calculator_preferences";
+const PENDING_CODE_KEY = "calculator_pending_code";
+const UNLOCK_ATTEMPTS_KEY = "calculator_unlock_attempts";
+const LEGACY_DEVICE_ID_KEY = "calculator_device_id";
+const LEGACY_DEVICE_SECRET_KEY = "calculator_device_secret";
+
+async function readJson(key: string): Promise<Record<string, unknown> | null> {
+  const raw = await getItem(key);
+  if (raw === null) return null;
+  try {
+    const value: unknown = JSON.parse(raw);
+    return typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// v1: pairings saved before sequences were hashed hold the codes in
+// plain text
+async function hashPlainCodes(): Promise<void> {
+  const stored = await readJson(PAIRING_KEY);
+  if (!stored || typeof stored.code !== "string") return;
+
+  const { code, duressCode, ...rest } = stored;
+  const pairing = {
+    ...rest,
+    unlock: await createUnlockSecret(code),
+    duress:
+      typeof duressCode === "string"
+        ? await createUnlockSecret(duressCode)
+        : undefined,
+  };
+  await setItem(PAIRING_KEY, JSON.stringify(pairing));
+}
+
+// v2: the device ID and secret become one credentials entry, and the
+// duress choices move out of the pairing into preferences. Both critical
+// entries get their first backup.
+async function splitCredentialsAndPreferences(): Promise<void> {
+  const deviceId = await getItem(LEGACY_DEVICE_ID_KEY);
+  if (deviceId) {
+    const deviceSecret = await getItem(LEGACY_DEVICE_SECRET_KEY);
+    const credentials = JSON.stringify({
+      deviceId,
+      deviceSecret: deviceSecret ?? undefined,
+    });
+    await setItem(CREDENTIALS_KEY, credentials);
+    await setItem(CREDENTIALS_BACKUP_KEY, credentials);
+  }
+  await deleteItem(LEGACY_DEVICE_ID_KEY);
+  await deleteItem(LEGACY_DEVICE_SECRET_KEY);
+
+  const stored = await readJson(PAIRING_KEY);
+  if (!stored) return;
+
+  const { duressAction, duressAlertsPartner, ...pairing } = stored;
+  if (duressAction !== undefined || duressAlertsPartner !== undefined) {
+    await setItem(
+      PREFERENCES_KEY,
+      JSON.stringify({ duressAction, duressAlertsPartner }),
+    );
+  }
+  await setItem(PAIRING_KEY, JSON.stringify(pairing));
+  await setItem(PAIRING_BACKUP_KEY, JSON.stringify(pairing));
+}
+
+// v3: on web, everything older builds wrote in plain text is sealed;
+// after this, unsealed values are refused. See web-crypto-storage.ts
+async function sealWebValues(): Promise<void> {
+  if (Platform.OS !== "web") return;
+
+  const entries = [
+    PAIRING_KEY,
+    CREDENTIALS_KEY,
+    PREFERENCES_KEY,
+    PENDING_CODE_KEY,
+    UNLOCK_ATTEMPTS_KEY,
+  ];
+  const keys = entries.flatMap((key) => [
+    key,
+    `${key}_backup`,
+    `${key}_corrupt`,
+  ]);
+  for (const key of keys) {
+    let value: string | null;
+    try {
+      value = await getItem(key);
+    } catch {
+      // Sealed but unreadable; the store sets it aside when it is read
+      continue;
+    }
+    if (value !== null) {
+      await setItem(key, value);
+    }
+  }
+}
+
+export const MIGRATIONS: (() => Promise<void>)[] = [
+  hashPlainCodes,
+  splitCredentialsAndPreferences,
+  sealWebValues,
+];
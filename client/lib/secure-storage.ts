@@ -1,66 +1,330 @@
-import { Platform } from "react-native";
-import * as SecureStore from "expo-secure-store";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import { z } from "zod";
 
-const PAIRING_KEY = "calculator_pairing_data";
+import {
+  beginPlainValueMigration,
+  deleteItem,
+  endPlainValueMigration,
+  getItem,
+  setItem,
+} from "@/lib/platform-storage";
+import { MIGRATIONS } from "@/lib/secure-storage-migrations";
+import type { UnlockSecret } from "@/lib/unlock-secret";
 
-export interface PairingData {
-  code: string;
-  role: "A" | "B";
+// ============================================
+// SECURE STORAGE - Versioned, validated entries
+// Every entry is checked against its schema when read. One that fails
+// is set aside under a _corrupt key instead of being lost, and the
+// critical ones (pairing and credentials) fall back to a copy written
+// alongside them, so a damaged write doesn't make the device look
+// unpaired. Migrations run once per launch, before the first access.
+// ============================================
+
+const STORAGE_VERSION_KEY = "calculator_storage_version";
+const BACKUP_SUFFIX = "_backup";
+const CORRUPT_SUFFIX = "_corrupt";
+
+const UnlockSecretSchema: z.ZodType<UnlockSecret> = z.object({
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+  salt: z.string().regex(/^[0-9a-f]+$/),
+  iterations: z.number().int().positive(),
+  length: z.number().int().positive(),
+  shape: z
+    .string()
+    .regex(/^[0.+\-×÷()%^]+$/)
+    .optional(),
+});
+
+const PairingSchema = z.object({
+  // Salted hash of the sequence that opens the chat
+  unlock: UnlockSecretSchema,
+  role: z.enum(["A", "B"]),
+  // Server-side pairing; absent for pairings from the old static code list
+  pairingId: z.string().optional(),
+  // A second sequence for use under coercion; see duress.ts. Dropped
+  // rather than failing the pairing if it is damaged
+  duress: UnlockSecretSchema.optional().catch(undefined),
+});
+
+const CredentialsSchema = z.object({
+  // Random, created on first use; the server binds pairing codes to it
+  deviceId: z.string().min(16),
+  // Issued by the server at pairing and traded for short-lived access
+  // tokens; never sent anywhere else
+  deviceSecret: z.string().min(1).optional(),
+});
+
+// A code this device asked the server for, waiting for the partner
+const PendingCodeSchema = z.object({
+  code: z.string().regex(/^\d{4}$/),
+  expiresAt: z.number(),
+  // Becomes this device's credential once the partner redeems the code
+  deviceSecret: z.string().min(1),
+});
+
+// Wrong unlock entries so far; see unlock-guard.ts
+const UnlockAttemptsSchema = z.object({
+  failures: z.number().int().nonnegative(),
+  lastFailureAt: z.number(),
+  lockedUntil: z.number(),
+});
+
+// What the duress sequence does: open a harmless made-up chat, or
+// erase the conversation and carry on as a plain calculator
+const DuressActionSchema = z.enum(["decoy", "wipe"]);
+
+// Each setting falls back to its default on its own
+const PreferencesSchema = z.object({
+  duressAction: DuressActionSchema.catch("decoy"),
+  duressAlertsPartner: z.boolean().catch(false),
+});
+
+export type PairingData = z.infer<typeof PairingSchema>;
+export type PendingCode = z.infer<typeof PendingCodeSchema>;
+export type UnlockAttempts = z.infer<typeof UnlockAttemptsSchema>;
+export type DuressAction = z.infer<typeof DuressActionSchema>;
+export type SecurePreferences = z.infer<typeof PreferencesSchema>;
+type Credentials = z.infer<typeof CredentialsSchema>;
+
+const DEFAULT_PREFERENCES: SecurePreferences = {
+  duressAction: "decoy",
+  duressAlertsPartner: false,
+};
+
+interface Entry<T> {
+  key: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Keep a second copy to recover from
+  backup: boolean;
 }
 
+const PAIRING: Entry<PairingData> = {
+  key: "calculator_pairing_data",
+  schema: PairingSchema,
+  backup: true,
+};
+const CREDENTIALS: Entry<Credentials> = {
+  key: "calculator_credentials",
+  schema: CredentialsSchema,
+  backup: true,
+};
+const PENDING_CODE: Entry<PendingCode> = {
+  key: "calculator_pending_code",
+  schema: PendingCodeSchema,
+  backup: false,
+};
+const UNLOCK_ATTEMPTS: Entry<UnlockAttempts> = {
+  key: "calculator_unlock_attempts",
+  schema: UnlockAttemptsSchema,
+  backup: false,
+};
+const PREFERENCES: Entry<SecurePreferences> = {
+  key: "calculator_preferences",
+  schema: PreferencesSchema,
+  backup: false,
+};
+
 // ============================================
-// SECURE STORAGE
-// Uses Android Keystore via expo-secure-store on native
-// Falls back to AsyncStorage on web (for testing only)
-// Stores the pairing data permanently after first unlock
+// MIGRATIONS - Each brings the layout up one version; the version is
+// saved after every step, so an interrupted run resumes where it left
+// off. A layout newer than this build is left alone.
 // ============================================
+let migration: Promise<void> | null = null;
 
-async function setItem(key: string, value: string): Promise<void> {
-  if (Platform.OS === "web") {
-    await AsyncStorage.setItem(key, value);
-  } else {
-    await SecureStore.setItemAsync(key, value);
+async function runMigrations(): Promise<void> {
+  await beginPlainValueMigration();
+  try {
+    const stored = Number(await getItem(STORAGE_VERSION_KEY));
+    for (
+      let version = Number.isInteger(stored) ? stored : 0;
+      version < MIGRATIONS.length;
+      version++
+    ) {
+      await MIGRATIONS[version]();
+      await setItem(STORAGE_VERSION_KEY, String(version + 1));
+    }
+  } finally {
+    endPlainValueMigration();
   }
 }
 
-async function getItem(key: string): Promise<string | null> {
-  if (Platform.OS === "web") {
-    return await AsyncStorage.getItem(key);
-  } else {
-    return await SecureStore.getItemAsync(key);
+// Started on launch; every read and write waits for it. A failed step
+// is retried next launch, and entries are still validated meanwhile.
+export function migrateSecureStorage(): Promise<void> {
+  if (!migration) {
+    migration = runMigrations().catch((error) => {
+      console.error("Error migrating secure storage:", error);
+    });
   }
+  return migration;
 }
 
-async function deleteItem(key: string): Promise<void> {
-  if (Platform.OS === "web") {
-    await AsyncStorage.removeItem(key);
-  } else {
-    await SecureStore.deleteItemAsync(key);
+// ============================================
+// ENTRIES - Validated reads with recovery, and mirrored writes
+// ============================================
+function parseEntry<T>(entry: Entry<T>, raw: string): T | null {
+  try {
+    const result = entry.schema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
   }
 }
 
-export async function savePairing(pairing: PairingData): Promise<void> {
-  await setItem(PAIRING_KEY, JSON.stringify(pairing));
+async function readEntry<T>(entry: Entry<T>): Promise<T | null> {
+  await migrateSecureStorage();
+
+  let raw: string | null = null;
+  try {
+    raw = await getItem(entry.key);
+    if (raw === null) return null;
+    const value = parseEntry(entry, raw);
+    if (value !== null) return value;
+  } catch (error) {
+    // Unreadable, such as a web value that no longer decrypts
+    console.error(`Error reading ${entry.key}:`, error);
+  }
+  return await recoverEntry(entry, raw);
 }
 
-export async function getPairing(): Promise<PairingData | null> {
+// Sets a damaged entry aside, if it could be read at all, and falls
+// back to the backup of a critical one
+async function recoverEntry<T>(
+  entry: Entry<T>,
+  raw: string | null,
+): Promise<T | null> {
+  console.error(`Corrupt entry ${entry.key}, setting it aside`);
+  if (raw !== null) {
+    await setItem(entry.key + CORRUPT_SUFFIX, raw);
+  }
+  await deleteItem(entry.key);
+  if (!entry.backup) return null;
+
+  let backup: string | null = null;
   try {
-    const data = await getItem(PAIRING_KEY);
-    if (data) {
-      return JSON.parse(data) as PairingData;
-    }
-    return null;
-  } catch {
-    return null;
+    backup = await getItem(entry.key + BACKUP_SUFFIX);
+  } catch (error) {
+    console.error(`Error reading the backup of ${entry.key}:`, error);
+  }
+  const restored = backup !== null ? parseEntry(entry, backup) : null;
+  if (restored !== null) {
+    await setItem(entry.key, backup as string);
+  }
+  return restored;
+}
+
+async function writeEntry<T>(entry: Entry<T>, value: T): Promise<void> {
+  await migrateSecureStorage();
+  const raw = JSON.stringify(value);
+  await setItem(entry.key, raw);
+  if (entry.backup) {
+    await setItem(entry.key + BACKUP_SUFFIX, raw);
   }
 }
 
+// Removes every copy, set-aside ones included
+async function deleteEntry<T>(entry: Entry<T>): Promise<void> {
+  await migrateSecureStorage();
+  await deleteItem(entry.key);
+  await deleteItem(entry.key + BACKUP_SUFFIX);
+  await deleteItem(entry.key + CORRUPT_SUFFIX);
+}
+
+// ============================================
+// PAIRING - Stored permanently after first unlock
+// ============================================
+export async function savePairing(pairing: PairingData): Promise<void> {
+  await writeEntry(PAIRING, pairing);
+}
+
+export async function getPairing(): Promise<PairingData | null> {
+  return await readEntry(PAIRING);
+}
+
 export async function hasPairing(): Promise<boolean> {
   const pairing = await getPairing();
   return pairing !== null;
 }
 
 export async function clearPairing(): Promise<void> {
-  await deleteItem(PAIRING_KEY);
+  await deleteEntry(PAIRING);
+}
+
+// ============================================
+// CREDENTIALS - The device ID, and the device secret once paired
+// ============================================
+export async function getDeviceId(): Promise<string> {
+  const stored = await readEntry(CREDENTIALS);
+  if (stored) return stored.deviceId;
+
+  const deviceId = Crypto.randomUUID();
+  await writeEntry(CREDENTIALS, { deviceId });
+  return deviceId;
+}
+
+export async function saveDeviceSecret(secret: string): Promise<void> {
+  const deviceId = await getDeviceId();
+  await writeEntry(CREDENTIALS, { deviceId, deviceSecret: secret });
+}
+
+export async function getDeviceSecret(): Promise<string | null> {
+  const stored = await readEntry(CREDENTIALS);
+  return stored?.deviceSecret ?? null;
+}
+
+// The device ID goes too: the server may still hold a pairing for it,
+// and a fresh one is made when the device next pairs
+export async function clearCredentials(): Promise<void> {
+  await deleteEntry(CREDENTIALS);
+}
+
+// ============================================
+// PENDING CODE - Kept past its expiry: the partner may have redeemed
+// it in time, and only the server knows
+// ============================================
+export async function savePendingCode(pending: PendingCode): Promise<void> {
+  await writeEntry(PENDING_CODE, pending);
+}
+
+export async function getPendingCode(): Promise<PendingCode | null> {
+  return await readEntry(PENDING_CODE);
+}
+
+export async function clearPendingCode(): Promise<void> {
+  await deleteEntry(PENDING_CODE);
+}
+
+// ============================================
+// UNLOCK ATTEMPTS - Kept in secure storage, away from anything that
+// can read or rewrite the app's plain files
+// ============================================
+export async function saveUnlockAttempts(
+  attempts: UnlockAttempts,
+): Promise<void> {
+  await writeEntry(UNLOCK_ATTEMPTS, attempts);
+}
+
+export async function getUnlockAttempts(): Promise<UnlockAttempts | null> {
+  return await readEntry(UNLOCK_ATTEMPTS);
+}
+
+export async function clearUnlockAttempts(): Promise<void> {
+  await deleteEntry(UNLOCK_ATTEMPTS);
+}
+
+// ============================================
+// PREFERENCES - Choices made in the hidden settings
+// ============================================
+export async function getPreferences(): Promise<SecurePreferences> {
+  return (await readEntry(PREFERENCES)) ?? DEFAULT_PREFERENCES;
+}
+
+export async function savePreferences(
+  preferences: SecurePreferences,
+): Promise<void> {
+  await writeEntry(PREFERENCES, preferences);
+}
+
+export async function clearPreferences(): Promise<void> {
+  await deleteEntry(PREFERENCES);
 }
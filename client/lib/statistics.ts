@@ -0,0 +1,101 @@
+// ============================================
+// STATISTICS - Summary and linear regression on exact decimals
+// ============================================
+
+import { Decimal } from "@/lib/decimal";
+
+export interface StatisticsSummary {
+  count: number;
+  sum: Decimal;
+  mean: Decimal;
+  median: Decimal;
+  min: Decimal;
+  max: Decimal;
+  // Population (σ, σ²) and sample (s, s²) forms
+  populationVariance: Decimal;
+  populationStandardDeviation: Decimal;
+  // Null for a single value, where n − 1 is zero
+  sampleVariance: Decimal | null;
+  sampleStandardDeviation: Decimal | null;
+}
+
+export interface LinearRegression {
+  // y = intercept + slope · x
+  slope: Decimal;
+  intercept: Decimal;
+  // Null when every y is the same
+  correlation: Decimal | null;
+}
+
+const TWO = Decimal.from(2);
+
+function sumOf(values: Decimal[]): Decimal {
+  return values.reduce((total, value) => total.add(value), Decimal.ZERO);
+}
+
+function meanOf(values: Decimal[]): Decimal {
+  return sumOf(values).div(Decimal.from(values.length));
+}
+
+export function summarize(values: Decimal[]): StatisticsSummary | null {
+  if (values.length === 0) return null;
+
+  const count = values.length;
+  const sorted = [...values].sort((a, b) => a.compare(b));
+  const middle = Math.floor(count / 2);
+  const median =
+    count % 2 === 1
+      ? sorted[middle]
+      : sorted[middle - 1].add(sorted[middle]).div(TWO);
+
+  const mean = meanOf(values);
+  const squares = sumOf(
+    values.map((value) => value.sub(mean).mul(value.sub(mean))),
+  );
+  const populationVariance = squares.div(Decimal.from(count));
+  const sampleVariance =
+    count > 1 ? squares.div(Decimal.from(count - 1)) : null;
+
+  return {
+    count,
+    sum: sumOf(values),
+    mean,
+    median,
+    min: sorted[0],
+    max: sorted[count - 1],
+    populationVariance,
+    populationStandardDeviation: populationVariance.sqrt(),
+    sampleVariance,
+    sampleStandardDeviation: sampleVariance ? sampleVariance.sqrt() : null,
+  };
+}
+
+// Least squares fit; null when all x are equal or there are too few points
+export function linearRegression(
+  xs: Decimal[],
+  ys: Decimal[],
+): LinearRegression | null {
+  if (xs.length < 2 || xs.length !== ys.length) return null;
+
+  const meanX = meanOf(xs);
+  const meanY = meanOf(ys);
+  let sxx = Decimal.ZERO;
+  let syy = Decimal.ZERO;
+  let sxy = Decimal.ZERO;
+  xs.forEach((x, index) => {
+    const dx = x.sub(meanX);
+    const dy = ys[index].sub(meanY);
+    sxx = sxx.add(dx.mul(dx));
+    syy = syy.add(dy.mul(dy));
+    sxy = sxy.add(dx.mul(dy));
+  });
+
+  if (sxx.isZero()) return null;
+
+  const slope = sxy.div(sxx);
+  return {
+    slope,
+    intercept: meanY.sub(slope.mul(meanX)),
+    correlation: syy.isZero() ? null : sxy.div(sxx.mul(syy).sqrt()),
+  };
+}
@@ -0,0 +1,203 @@
+import { Decimal } from "@/lib/decimal";
+
+// ============================================
+// UNIT CONVERSION - Offline unit table
+// Every unit maps linearly onto its category's base unit:
+//   base = (value + offset) × numerator ÷ denominator
+// Ratios stay exact, so 1 km/h is exactly 1000/3600 m/s
+// ============================================
+
+export type UnitCategoryId =
+  | "length"
+  | "mass"
+  | "volume"
+  | "temperature"
+  | "area"
+  | "speed"
+  | "data"
+  | "time";
+
+export interface Unit {
+  id: string;
+  name: string;
+  symbol: string;
+  numerator: Decimal;
+  denominator: Decimal;
+  offset: Decimal;
+}
+
+export interface UnitCategory {
+  id: UnitCategoryId;
+  name: string;
+  units: Unit[];
+  // Initial from/to pair when the category is opened
+  defaultFrom: string;
+  defaultTo: string;
+}
+
+function unit(
+  id: string,
+  name: string,
+  symbol: string,
+  numerator: string,
+  denominator = "1",
+  offset = "0",
+): Unit {
+  return {
+    id,
+    name,
+    symbol,
+    numerator: Decimal.parse(numerator),
+    denominator: Decimal.parse(denominator),
+    offset: Decimal.parse(offset),
+  };
+}
+
+export const UNIT_CATEGORIES: UnitCategory[] = [
+  {
+    id: "length",
+    name: "Length",
+    defaultFrom: "m",
+    defaultTo: "ft",
+    units: [
+      unit("mm", "Millimetre", "mm", "0.001"),
+      unit("cm", "Centimetre", "cm", "0.01"),
+      unit("m", "Metre", "m", "1"),
+      unit("km", "Kilometre", "km", "1000"),
+      unit("in", "Inch", "in", "0.0254"),
+      unit("ft", "Foot", "ft", "0.3048"),
+      unit("yd", "Yard", "yd", "0.9144"),
+      unit("mi", "Mile", "mi", "1609.344"),
+      unit("nmi", "Nautical mile", "nmi", "1852"),
+    ],
+  },
+  {
+    id: "mass",
+    name: "Mass",
+    defaultFrom: "kg",
+    defaultTo: "lb",
+    units: [
+      unit("mg", "Milligram", "mg", "0.000001"),
+      unit("g", "Gram", "g", "0.001"),
+      unit("kg", "Kilogram", "kg", "1"),
+      unit("t", "Tonne", "t", "1000"),
+      unit("oz", "Ounce", "oz", "0.028349523125"),
+      unit("lb", "Pound", "lb", "0.45359237"),
+      unit("st", "Stone", "st", "6.35029318"),
+    ],
+  },
+  {
+    id: "volume",
+    name: "Volume",
+    defaultFrom: "l",
+    defaultTo: "gal",
+    units: [
+      unit("ml", "Millilitre", "mL", "0.001"),
+      unit("l", "Litre", "L", "1"),
+      unit("m3", "Cubic metre", "m³", "1000"),
+      unit("tsp", "Teaspoon (US)", "tsp", "0.00492892159375"),
+      unit("tbsp", "Tablespoon (US)", "tbsp", "0.01478676478125"),
+      unit("floz", "Fluid ounce (US)", "fl oz", "0.0295735295625"),
+      unit("cup", "Cup (US)", "cup", "0.2365882365"),
+      unit("pt", "Pint (US)", "pt", "0.473176473"),
+      unit("qt", "Quart (US)", "qt", "0.946352946"),
+      unit("gal", "Gallon (US)", "gal", "3.785411784"),
+      unit("galuk", "Gallon (UK)", "gal UK", "4.54609"),
+    ],
+  },
+  {
+    id: "temperature",
+    name: "Temperature",
+    defaultFrom: "c",
+    defaultTo: "f",
+    // Base unit is the kelvin
+    units: [
+      unit("c", "Celsius", "°C", "1", "1", "273.15"),
+      unit("f", "Fahrenheit", "°F", "5", "9", "459.67"),
+      unit("k", "Kelvin", "K", "1"),
+    ],
+  },
+  {
+    id: "area",
+    name: "Area",
+    defaultFrom: "m2",
+    defaultTo: "ft2",
+    units: [
+      unit("cm2", "Square centimetre", "cm²", "0.0001"),
+      unit("m2", "Square metre", "m²", "1"),
+      unit("ha", "Hectare", "ha", "10000"),
+      unit("km2", "Square kilometre", "km²", "1000000"),
+      unit("in2", "Square inch", "in²", "0.00064516"),
+      unit("ft2", "Square foot", "ft²", "0.09290304"),
+      unit("yd2", "Square yard", "yd²", "0.83612736"),
+      unit("ac", "Acre", "ac", "4046.8564224"),
+      unit("mi2", "Square mile", "mi²", "2589988.110336"),
+    ],
+  },
+  {
+    id: "speed",
+    name: "Speed",
+    defaultFrom: "kmh",
+    defaultTo: "mph",
+    units: [
+      unit("ms", "Metres per second", "m/s", "1"),
+      unit("kmh", "Kilometres per hour", "km/h", "1000", "3600"),
+      unit("mph", "Miles per hour", "mph", "0.44704"),
+      unit("kn", "Knot", "kn", "1852", "3600"),
+      unit("fts", "Feet per second", "ft/s", "0.3048"),
+    ],
+  },
+  {
+    id: "data",
+    name: "Data",
+    defaultFrom: "mb",
+    defaultTo: "mib",
+    units: [
+      unit("bit", "Bit", "bit", "1", "8"),
+      unit("b", "Byte", "B", "1"),
+      unit("kb", "Kilobyte", "KB", "1000"),
+      unit("mb", "Megabyte", "MB", "1000000"),
+      unit("gb", "Gigabyte", "GB", "1000000000"),
+      unit("tb", "Terabyte", "TB", "1000000000000"),
+      unit("kib", "Kibibyte", "KiB", "1024"),
+      unit("mib", "Mebibyte", "MiB", "1048576"),
+      unit("gib", "Gibibyte", "GiB", "1073741824"),
+      unit("tib", "Tebibyte", "TiB", "1099511627776"),
+    ],
+  },
+  {
+    id: "time",
+    name: "Time",
+    defaultFrom: "h",
+    defaultTo: "min",
+    units: [
+      unit("ms", "Millisecond", "ms", "0.001"),
+      unit("s", "Second", "s", "1"),
+      unit("min", "Minute", "min", "60"),
+      unit("h", "Hour", "h", "3600"),
+      unit("d", "Day", "d", "86400"),
+      unit("wk", "Week", "wk", "604800"),
+      // Average Gregorian month and year
+      unit("mo", "Month", "mo", "2629746"),
+      unit("yr", "Year", "yr", "31556952"),
+    ],
+  },
+];
+
+export function getCategory(id: UnitCategoryId): UnitCategory {
+  return UNIT_CATEGORIES.find((category) => category.id === id)!;
+}
+
+export function getUnit(category: UnitCategory, id: string): Unit {
+  return category.units.find((u) => u.id === id) ?? category.units[0];
+}
+
+export function convertUnit(value: Decimal, from: Unit, to: Unit): Decimal {
+  // One division at the end keeps the result as exact as possible
+  return value
+    .add(from.offset)
+    .mul(from.numerator)
+    .mul(to.denominator)
+    .div(from.denominator.mul(to.numerator))
+    .sub(to.offset);
+}
@@ -0,0 +1,57 @@
+import type { PendingCode, UnlockAttempts } from "@/lib/secure-storage";
+
+// ============================================
+// UNLOCK GUARD - Backoff after wrong unlock codes
+// Everyday sums can be as long as the code, so the first few misses
+// are free; after that each one doubles the wait. While locked out no code
+// is checked at all, so the right one calculates like any other entry
+// and nothing on screen gives the lock away.
+// ============================================
+
+const FREE_FAILURES = 5;
+const BASE_LOCKOUT = 30 * 1000;
+const MAX_LOCKOUT = 60 * 60 * 1000;
+// A day without a miss wipes the slate
+const FORGET_AFTER = 24 * 60 * 60 * 1000;
+
+// Server-issued codes never start with 0
+const MIN_PAIRING_CODE = 1000;
+const MAX_PAIRING_CODE = 9999;
+
+export const NO_UNLOCK_ATTEMPTS: UnlockAttempts = {
+  failures: 0,
+  lastFailureAt: 0,
+  lockedUntil: 0,
+};
+
+export function isLockedOut(attempts: UnlockAttempts, now: number): boolean {
+  return now < attempts.lockedUntil;
+}
+
+export function recordFailure(
+  attempts: UnlockAttempts,
+  now: number,
+): UnlockAttempts {
+  const previous =
+    now - attempts.lastFailureAt > FORGET_AFTER ? 0 : attempts.failures;
+  const failures = previous + 1;
+  const excess = failures - FREE_FAILURES;
+  const lockout =
+    excess > 0 ? Math.min(BASE_LOCKOUT * 2 ** (excess - 1), MAX_LOCKOUT) : 0;
+  return { failures, lastFailureAt: now, lockedUntil: now + lockout };
+}
+
+// Whether an unpaired device should ask the server about a code at all.
+// While its own code is live, the device is waiting for the partner and
+// can't redeem anyone else's.
+export function isPossiblePairingCode(
+  code: string,
+  pending: PendingCode | null,
+  now: number,
+): boolean {
+  if (!/^\d{4}$/.test(code)) return false;
+  const value = Number(code);
+  if (value < MIN_PAIRING_CODE || value > MAX_PAIRING_CODE) return false;
+  if (pending && now < pending.expiresAt) return code === pending.code;
+  return true;
+}
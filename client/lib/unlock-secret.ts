@@ -0,0 +1,120 @@
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import * as Crypto from "expo-crypto";
+
+// ============================================
+// UNLOCK SECRETS - The unlock and duress sequences
+// Only a salted PBKDF2 hash is stored. Checking an entry is slow on
+// purpose, so a copy of the storage can't be guessed through quickly;
+// entries of any other shape are turned away without hashing, which
+// keeps everyday sums instant.
+// ============================================
+
+export interface UnlockSecret {
+  hash: string;
+  salt: string;
+  iterations: number;
+  length: number;
+  // The sequence with every digit masked, so 7×7 is 0×0. Absent from
+  // secrets saved before it was kept, which go by length alone
+  shape?: string;
+}
+
+// Pure JS on the phone, so about as many as a tap can wait for
+const ITERATIONS = 20000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Digit codes need four digits; a sum as short as 7×7 is enough
+export const MIN_SEQUENCE_LENGTH = 4;
+const MIN_SUM_LENGTH = 3;
+export const MAX_SEQUENCE_LENGTH = 32;
+
+const SEQUENCE_CHARS = /^[0-9.+\-×÷()%^]+$/;
+const DIGITS_ONLY = /^[0-9]+$/;
+// The keypad replaces a lone leading 0, so 0123 or 07×7 can't be typed
+const LEADING_ZERO = /(^|[^0-9.])0\d/;
+
+// The display text when = is pressed. Typed stand-ins for the keypad's
+// operators are accepted, so 7*7= and 7×7= are the same sequence.
+export function normalizeSequence(text: string): string {
+  return text
+    .replace(/\s/g, "")
+    .replace(/=+$/, "")
+    .replace(/[*x]/g, "×")
+    .replace(/\//g, "÷")
+    .replace(/−/g, "-");
+}
+
+export function isValidSequence(text: string): boolean {
+  const sequence = normalizeSequence(text);
+  const minLength = DIGITS_ONLY.test(sequence)
+    ? MIN_SEQUENCE_LENGTH
+    : MIN_SUM_LENGTH;
+  return (
+    sequence.length >= minLength &&
+    sequence.length <= MAX_SEQUENCE_LENGTH &&
+    SEQUENCE_CHARS.test(sequence) &&
+    !LEADING_ZERO.test(sequence)
+  );
+}
+
+function shapeOf(sequence: string): string {
+  return sequence.replace(/[0-9]/g, "0");
+}
+
+async function derive(
+  sequence: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<string> {
+  const key = await pbkdf2Async(sha256, sequence, salt, {
+    c: iterations,
+    dkLen: KEY_BYTES,
+  });
+  return bytesToHex(key);
+}
+
+export async function createUnlockSecret(text: string): Promise<UnlockSecret> {
+  const sequence = normalizeSequence(text);
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  return {
+    hash: await derive(sequence, salt, ITERATIONS),
+    salt: bytesToHex(salt),
+    iterations: ITERATIONS,
+    length: sequence.length,
+    shape: shapeOf(sequence),
+  };
+}
+
+// Whether an entry is worth hashing at all
+export function couldMatch(secret: UnlockSecret, text: string): boolean {
+  const sequence = normalizeSequence(text);
+  return secret.shape !== undefined
+    ? shapeOf(sequence) === secret.shape
+    : sequence.length === secret.length;
+}
+
+// Whether a wrong entry counts towards the lockout. Everyday sums
+// don't: only entries shaped like the sequence, or plain digits for a
+// secret saved without its shape.
+export function isUnlockAttempt(secret: UnlockSecret, text: string): boolean {
+  return (
+    couldMatch(secret, text) &&
+    (secret.shape !== undefined || DIGITS_ONLY.test(normalizeSequence(text)))
+  );
+}
+
+export async function matchesUnlockSecret(
+  secret: UnlockSecret,
+  text: string,
+): Promise<boolean> {
+  if (!couldMatch(secret, text)) return false;
+  const hash = await derive(
+    normalizeSequence(text),
+    hexToBytes(secret.salt),
+    secret.iterations,
+  );
+  return hash === secret.hash;
+}
@@ -0,0 +1,36 @@
+import { endPairing, forgetAccessToken } from "@/lib/chat-api";
+import { deleteChatHistory } from "@/lib/file-system";
+import {
+  clearCredentials,
+  clearPairing,
+  clearPendingCode,
+  clearPreferences,
+  clearUnlockAttempts,
+} from "@/lib/secure-storage";
+
+// ============================================
+// UNPAIR - Back to a plain calculator, ready to pair again
+// ============================================
+
+// Everything this device knows about the conversation, its device ID
+// included. Any pairing left on the server belongs to the old ID, so it
+// can't stop this device pairing again.
+export async function wipeConversation(): Promise<void> {
+  forgetAccessToken();
+  await deleteChatHistory("chat_A.json");
+  await deleteChatHistory("chat_B.json");
+  await clearCredentials();
+  await clearPendingCode();
+  await clearUnlockAttempts();
+  await clearPreferences();
+  await clearPairing();
+}
+
+// Ends the pairing on the server, which tells the partner, then wipes
+// this device. False, with nothing wiped, when the server can't be
+// reached; wipeConversation alone still frees the device.
+export async function unpairDevice(): Promise<boolean> {
+  if (!(await endPairing())) return false;
+  await wipeConversation();
+  return true;
+}
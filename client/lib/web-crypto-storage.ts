@@ -0,0 +1,170 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// ============================================
+// WEB CRYPTO STORAGE - Encrypted values for the web build
+// Values are sealed with AES-GCM before they reach AsyncStorage
+// (localStorage on web). The key is generated non-extractable and kept
+// in IndexedDB: the page can use it but never read it out, so a copy of
+// localStorage on its own is useless.
+// ============================================
+
+const DB_NAME = "calculator_keys";
+const STORE_NAME = "keys";
+const KEY_ID = "storage";
+// Marks sealed values; anything else was written before encryption
+const SEALED_PREFIX = "enc1:";
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let storageKey: Promise<CryptoKey> | null = null;
+// Set only while migrations seal what older builds left in plain text
+let acceptsPlainValues = false;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openKeyStore(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  return requestResult(request);
+}
+
+async function loadOrCreateKey(): Promise<CryptoKey> {
+  const db = await openKeyStore();
+  const readKey = () =>
+    requestResult<CryptoKey | undefined>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).get(KEY_ID),
+    );
+  try {
+    const stored = await readKey();
+    if (stored) return stored;
+
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+    try {
+      await requestResult(
+        db
+          .transaction(STORE_NAME, "readwrite")
+          .objectStore(STORE_NAME)
+          .add(key, KEY_ID),
+      );
+      return key;
+    } catch {
+      // Another tab stored its key first; use that one
+      const winner = await readKey();
+      if (!winner) throw new Error("Storage key could not be saved");
+      return winner;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// Without creating one: an origin that never had a key holds no sealed
+// values, only plain ones from older builds
+export async function hasStorageKey(): Promise<boolean> {
+  const db = await openKeyStore();
+  try {
+    const count = await requestResult(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).count(KEY_ID),
+    );
+    return count > 0;
+  } finally {
+    db.close();
+  }
+}
+
+export function acceptPlainValues(accept: boolean): void {
+  acceptsPlainValues = accept;
+}
+
+function getStorageKey(): Promise<CryptoKey> {
+  if (!storageKey) {
+    storageKey = loadOrCreateKey().catch((error) => {
+      storageKey = null;
+      throw error;
+    });
+  }
+  return storageKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// The storage key is bound in as associated data, so a sealed value
+// can't be moved to another key and still open
+async function seal(key: string, value: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(key) },
+    await getStorageKey(),
+    encoder.encode(value),
+  );
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES);
+  return SEALED_PREFIX + toBase64(sealed);
+}
+
+// Throws if the value was tampered with or the key is gone
+async function open(key: string, stored: string): Promise<string> {
+  const sealed = fromBase64(stored.slice(SEALED_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: sealed.subarray(0, IV_BYTES),
+      additionalData: encoder.encode(key),
+    },
+    await getStorageKey(),
+    sealed.subarray(IV_BYTES),
+  );
+  return decoder.decode(plaintext);
+}
+
+export async function setEncryptedItem(
+  key: string,
+  value: string,
+): Promise<void> {
+  await AsyncStorage.setItem(key, await seal(key, value));
+}
+
+// Outside the migrations an unsealed value can only have been planted,
+// so it is refused like a tampered one
+export async function getEncryptedItem(key: string): Promise<string | null> {
+  const stored = await AsyncStorage.getItem(key);
+  if (stored === null) return null;
+  if (!stored.startsWith(SEALED_PREFIX)) {
+    if (acceptsPlainValues) return stored;
+    throw new Error(`Unsealed value under ${key}`);
+  }
+  return await open(key, stored);
+}
+
+export async function deleteEncryptedItem(key: string): Promise<void> {
+  await AsyncStorage.removeItem(key);
+}
@@ -3,10 +3,25 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 
 import CalculatorScreen from "@/screens/CalculatorScreen";
 import ChatScreen from "@/screens/ChatScreen";
+import ConverterScreen from "@/screens/ConverterScreen";
+import DateScreen from "@/screens/DateScreen";
+import FinanceScreen from "@/screens/FinanceScreen";
+import GraphScreen from "@/screens/GraphScreen";
+import SettingsScreen from "@/screens/SettingsScreen";
+import SolverScreen from "@/screens/SolverScreen";
+import StatisticsScreen from "@/screens/StatisticsScreen";
 
 export type RootStackParamList = {
   Calculator: undefined;
-  Chat: undefined;
+  // A decoy chat, opened by the duress code, never touches the server
+  Chat: { decoy?: boolean } | undefined;
+  Converter: undefined;
+  Date: undefined;
+  Finance: undefined;
+  Graph: undefined;
+  Settings: undefined;
+  Solver: undefined;
+  Statistics: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -32,6 +47,55 @@ export default function RootStackNavigator() {
           animation: "slide_from_bottom",
         }}
       />
+      <Stack.Screen
+        name="Converter"
+        component={ConverterScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Date"
+        component={DateScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Finance"
+        component={FinanceScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Graph"
+        component={GraphScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Settings"
+        component={SettingsScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Solver"
+        component={SolverScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
+      <Stack.Screen
+        name="Statistics"
+        component={StatisticsScreen}
+        options={{
+          animation: "slide_from_right",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -1,142 +1,405 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   View,
   Text,
+  TextInput,
   StyleSheet,
   Pressable,
-  Dimensions,
   AppState,
   AppStateStatus,
 } from "react-native";
 import { StatusBar } from "expo-status-bar";
-import * as Haptics from "expo-haptics";
-import Animated, {
-  useAnimatedStyle,
-  useSharedValue,
-  withSpring,
-} from "react-native-reanimated";
+import * as Clipboard from "expo-clipboard";
+import { Feather } from "@expo/vector-icons";
+import {
+  Directions,
+  Gesture,
+  GestureDetector,
+} from "react-native-gesture-handler";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
-import { CalculatorColors, Typography } from "@/constants/theme";
+import { CALCULATOR_SKINS, KeypadKey, SKIN_IDS } from "@/constants/theme";
+import {
+  CalculatorButton,
+  BUTTON_MARGIN,
+  useKeypadLayout,
+} from "@/components/CalculatorButton";
+import { ScientificPanel } from "@/components/ScientificPanel";
+import { HistoryDrawer } from "@/components/HistoryDrawer";
+import { MemoryBar } from "@/components/MemoryBar";
+import { ModeMenu, ModeMenuItem } from "@/components/ModeMenu";
+import { ProgrammerPanel } from "@/components/ProgrammerPanel";
 import {
-  fetchPairingData,
-  findPairingByCode,
+  fetchPairingStatus,
+  sendDuressAlert,
+  abandonPairing,
+  redeemPairingCode,
+  requestPairingCode,
 } from "@/lib/chat-api";
-import { savePairing, getPairing, PairingData } from "@/lib/secure-storage";
+import {
+  savePairing,
+  getPairing,
+  PairingData,
+  getDeviceId,
+  getPendingCode,
+  savePendingCode,
+  clearPendingCode,
+  saveDeviceSecret,
+  getDeviceSecret,
+  getUnlockAttempts,
+  saveUnlockAttempts,
+  clearUnlockAttempts,
+  getPreferences,
+} from "@/lib/secure-storage";
+import { wipeConversation } from "@/lib/unpair";
+import {
+  couldMatch,
+  createUnlockSecret,
+  isUnlockAttempt,
+  matchesUnlockSecret,
+} from "@/lib/unlock-secret";
+import {
+  NO_UNLOCK_ATTEMPTS,
+  isLockedOut,
+  isPossiblePairingCode,
+  recordFailure,
+} from "@/lib/unlock-guard";
+import {
+  AngleMode,
+  ERROR_MESSAGES,
+  ExpressionError,
+  ExpressionErrorKind,
+  RepeatableOperation,
+  evaluateExpression,
+  lastOperation,
+  parseExpression,
+  toOperator,
+} from "@/lib/calculator-engine";
+import {
+  EditorState,
+  createEditorState,
+  insertText,
+  insertDigit,
+  insertDecimal,
+  insertOperator,
+  deleteBackward,
+  moveCursor,
+  nextParenthesis,
+  toggleSign,
+} from "@/lib/expression-editor";
+import { Decimal } from "@/lib/decimal";
+import {
+  HistoryEntry,
+  loadHistory,
+  addHistoryEntry,
+  clearHistory,
+} from "@/lib/calculator-history";
+import { loadMemory, saveMemory } from "@/lib/calculator-memory";
+import {
+  BASE_LABELS,
+  IntegerFormat,
+  NumberFormat,
+  formatNumber,
+} from "@/lib/number-format";
+import {
+  checkProgrammerSyntax,
+  evaluateProgrammerExpression,
+  isDigitForBase,
+} from "@/lib/programmer-engine";
+import {
+  delocalizeExpression,
+  localizeExpression,
+  toCanonicalCursor,
+} from "@/lib/locale-format";
+import {
+  CalculatorThemeContext,
+  useCalculatorSkin,
+} from "@/hooks/useCalculatorTheme";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+import { HardwareKey, useHardwareKeyboard } from "@/hooks/useHardwareKeyboard";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
-const { width: SCREEN_WIDTH } = Dimensions.get("window");
-const BUTTON_SIZE = (SCREEN_WIDTH - 60) / 4;
-const BUTTON_MARGIN = 8;
+// Significant digits shown before switching to scientific notation
+const MAX_DISPLAY_DIGITS = 12;
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+// While unpaired, any entry whose digits are 0000 (such as 0.000=)
+// asks the server for a pairing code
+const PAIRING_REQUEST_CODE = "0000";
+
+// A bare number (including a formatted result) needs no preview line
+const PLAIN_NUMBER = /^-?[\dA-F.]+(E-?\d+)?$/;
+
+// Keypad insertions that continue the current operand instead of starting one
+const CONTINUES_OPERAND = /^[\^!) ]/;
 
-interface CalculatorButtonProps {
+// C-style symbols typed in programmer mode; ^ and % mean XOR and MOD there
+const PROGRAMMER_KEYS: Record<string, string> = {
+  "&": " AND ",
+  "|": " OR ",
+  "^": " XOR ",
+  "%": " MOD ",
+  "~": "NOT ",
+};
+
+interface KeypadKeySpec {
   label: string;
   onPress: () => void;
-  isOperator?: boolean;
-  isWide?: boolean;
-  testID?: string;
+  role?: "function" | "operator" | "equals";
+  isDisabled?: boolean;
+  testID: string;
 }
 
-function CalculatorButton({
-  label,
-  onPress,
-  isOperator = false,
-  isWide = false,
-  testID,
-}: CalculatorButtonProps) {
-  const scale = useSharedValue(1);
-
-  const animatedStyle = useAnimatedStyle(() => ({
-    transform: [{ scale: scale.value }],
-    opacity: scale.value === 1 ? 1 : CalculatorColors.buttonPress,
-  }));
-
-  const handlePressIn = () => {
-    scale.value = withSpring(0.95, { damping: 15, stiffness: 300 });
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  };
+const DEFAULT_INTEGER_FORMAT: IntegerFormat = {
+  base: 10,
+  wordSize: 64,
+  signed: true,
+};
 
-  const handlePressOut = () => {
-    scale.value = withSpring(1, { damping: 15, stiffness: 300 });
-  };
-
-  return (
-    <AnimatedPressable
-      testID={testID}
-      onPress={onPress}
-      onPressIn={handlePressIn}
-      onPressOut={handlePressOut}
-      style={[
-        styles.button,
-        isOperator && styles.operatorButton,
-        isWide && styles.wideButton,
-        animatedStyle,
-      ]}
-    >
-      <Text
-        style={[
-          styles.buttonText,
-          isOperator && styles.operatorButtonText,
-        ]}
-      >
-        {label}
-      </Text>
-    </AnimatedPressable>
-  );
+// Shrink long expressions instead of scrolling them out of view
+function displayFontSize(length: number): number {
+  return Math.max(32, Math.min(60, Math.floor(540 / length)));
 }
 
 export default function CalculatorScreen() {
   const navigation = useNavigation<NavigationProp>();
-  const [display, setDisplay] = useState("0");
-  const [previousValue, setPreviousValue] = useState<string | null>(null);
-  const [operator, setOperator] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>(createEditorState("0"));
   const [waitingForOperand, setWaitingForOperand] = useState(false);
+  const [repeatOperation, setRepeatOperation] =
+    useState<RepeatableOperation | null>(null);
+  // Tied to the editor state it failed on; every edit makes a new state,
+  // so the next keypress clears the message
+  const [failure, setFailure] = useState<{
+    editor: EditorState;
+    kind: ExpressionErrorKind;
+  } | null>(null);
   const [inputHistory, setInputHistory] = useState("");
   const [storedPairing, setStoredPairing] = useState<PairingData | null>(null);
+  const [isScientificOpen, setIsScientificOpen] = useState(false);
+  const [isInverse, setIsInverse] = useState(false);
+  const [angleMode, setAngleMode] = useState<AngleMode>("deg");
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [memory, setMemory] = useState<Decimal | null>(null);
+  const [isModeMenuOpen, setIsModeMenuOpen] = useState(false);
+  const [isSkinMenuOpen, setIsSkinMenuOpen] = useState(false);
+  const [isProgrammer, setIsProgrammer] = useState(false);
+  const [integerFormat, setIntegerFormat] = useState<IntegerFormat>(
+    DEFAULT_INTEGER_FORMAT,
+  );
+  const layout = useKeypadLayout();
+  const numberLocale = useNumberLocale();
+  const { theme, setSkinId } = useCalculatorSkin();
+  const { skin, colors } = theme;
+
+  // Landscape always shows the scientific keys, beside the keypad
+  const { isLandscape } = layout;
+  const showScientific = !isProgrammer && (isScientificOpen || isLandscape);
+  const keysWidth = isLandscape
+    ? layout.panelWidth + BUTTON_MARGIN + layout.keypadWidth
+    : layout.keypadWidth;
+  const display = editor.text;
+
+  const numberFormat = useMemo<NumberFormat>(
+    () =>
+      isProgrammer
+        ? { mode: "programmer", ...integerFormat }
+        : { mode: "decimal", maxDigits: MAX_DISPLAY_DIGITS },
+    [isProgrammer, integerFormat],
+  );
+
+  // Separators follow the device region; programmer mode stays unlocalized
+  const localize = useCallback(
+    (text: string) =>
+      localizeExpression(text, isProgrammer ? null : numberLocale),
+    [isProgrammer, numberLocale],
+  );
+  const localizedDisplay = useMemo(
+    () => localize(display),
+    [localize, display],
+  );
+
+  // Every value on screen is formatted for the current mode and base
+  const formatDisplay = useCallback(
+    (value: Decimal) => formatNumber(value, numberFormat),
+    [numberFormat],
+  );
+
+  // Returns the error instead of a value when the calculation fails
+  const calculateDisplay = useCallback(
+    (text: string): Decimal | ExpressionError => {
+      try {
+        return isProgrammer
+          ? Decimal.from(evaluateProgrammerExpression(text, integerFormat))
+          : evaluateExpression(text, { angleMode });
+      } catch (error) {
+        if (error instanceof ExpressionError) return error;
+        throw error;
+      }
+    },
+    [isProgrammer, integerFormat, angleMode],
+  );
+
+  const evaluateDisplay = useCallback(
+    (text: string) => {
+      const result = calculateDisplay(text);
+      return result instanceof Decimal ? result : null;
+    },
+    [calculateDisplay],
+  );
+
+  // Replaces the whole display and parks the cursor at the end
+  const setDisplay = useCallback((text: string) => {
+    setEditor(createEditorState(text));
+  }, []);
+
+  // Applies a cursor-aware edit; a finished result is edited from scratch
+  const applyEdit = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      setEditor(edit(waitingForOperand ? createEditorState("0") : editor));
+      setWaitingForOperand(false);
+    },
+    [editor, waitingForOperand],
+  );
 
   useEffect(() => {
     loadStoredPairing();
+    loadHistory().then(setHistory);
+    loadMemory().then(setMemory);
     const subscription = AppState.addEventListener("change", handleAppStateChange);
     return () => subscription.remove();
   }, []);
 
   const loadStoredPairing = async () => {
     const pairing = await getPairing();
+    // Pairings from the old static code list have no server pairing or
+    // device secret, so their chat could never load: back to unpaired,
+    // to pair again with a code under a new device ID
+    if (pairing && (!pairing.pairingId || !(await getDeviceSecret()))) {
+      await wipeConversation();
+      setStoredPairing(null);
+      return;
+    }
     setStoredPairing(pairing);
   };
 
+  // The chat screen can change the duress code, so the pairing is read
+  // again each time the calculator comes back into view
+  useEffect(
+    () => navigation.addListener("focus", loadStoredPairing),
+    [navigation],
+  );
+
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     // Auto-lock functionality is handled in App.tsx
   };
 
   // ============================================
-  // UNLOCK LOGIC - Check for 4-digit code on equals press
-  // Fetches pairing from https://www.zidhuxd.me/chat.json
+  // UNLOCK LOGIC - Check the entry on equals press
+  // Paired, the entry is hashed and compared with the unlock sequence,
+  // which may be any digits or a sum like 7×7. Unpaired, four plain
+  // digits are a code the server issued: this device's own, once the
+  // partner has redeemed it, or the partner's, redeemed here. Wrong
+  // entries of the right shape earn a growing lockout, during which
+  // nothing is checked.
   // ============================================
   const checkForUnlockCode = useCallback(
-    async (code: string): Promise<boolean> => {
-      // If already paired, check against stored code
+    async (entry: string): Promise<boolean> => {
+      // The duress sequence works even when locked out: what it shows
+      // gives nothing away
+      if (
+        storedPairing?.duress &&
+        (await matchesUnlockSecret(storedPairing.duress, entry))
+      ) {
+        const preferences = await getPreferences();
+        // The server hears afterwards, unawaited, so nothing on screen
+        // waits on the network; the calls keep their own copy of the
+        // credentials a wipe erases
+        const deviceId = await getDeviceId();
+        const deviceSecret = await getDeviceSecret();
+        const wipes = preferences.duressAction === "wipe";
+        if (wipes) {
+          await wipeConversation();
+          setStoredPairing(null);
+        } else {
+          navigation.navigate("Chat", { decoy: true });
+        }
+        if (deviceSecret && preferences.duressAlertsPartner) {
+          sendDuressAlert(deviceId, deviceSecret);
+        } else if (deviceSecret && wipes) {
+          // Unless the partner is alerted, a wipe ends the pairing too,
+          // so nothing more is sent into it
+          abandonPairing(deviceId, deviceSecret);
+        }
+        // Not unlocked after a wipe, so the entry calculates as usual
+        return !wipes;
+      }
+
+      const now = Date.now();
+      const attempts = (await getUnlockAttempts()) ?? NO_UNLOCK_ATTEMPTS;
+      if (isLockedOut(attempts, now)) return false;
+
+      // Only entries shaped like the sequence count as attempts
       if (storedPairing) {
-        if (code === storedPairing.code) {
+        if (!isUnlockAttempt(storedPairing.unlock, entry)) return false;
+        if (await matchesUnlockSecret(storedPairing.unlock, entry)) {
+          await clearUnlockAttempts();
           navigation.navigate("Chat");
           return true;
         }
+        await saveUnlockAttempts(recordFailure(attempts, now));
         return false;
       }
 
-      // First time unlock - fetch pairing data
-      const pairingData = await fetchPairingData();
-      if (!pairingData) return false;
+      // Codes the server can't have issued never leave the device, and
+      // neither does anything but plain digits
+      const code = entry;
+      const pending = await getPendingCode();
+      if (!isPossiblePairingCode(code, pending, now)) return false;
+
+      const deviceId = await getDeviceId();
+      let pairing: PairingData | null = null;
+      let deviceSecret: string | null = null;
+
+      if (pending && pending.code === code) {
+        const status = await fetchPairingStatus(deviceId);
+        if (status?.status === "paired") {
+          pairing = {
+            unlock: await createUnlockSecret(code),
+            role: status.role,
+            pairingId: status.pairingId,
+          };
+          deviceSecret = pending.deviceSecret;
+        } else if (status?.status === "none") {
+          // Expired without being redeemed
+          await clearPendingCode();
+        }
+      } else {
+        const redeemed = await redeemPairingCode(deviceId, code);
+        if (redeemed === "throttled") {
+          // Not a wrong code; the server just isn't checking right now
+          return false;
+        }
+        if (redeemed) {
+          pairing = {
+            unlock: await createUnlockSecret(code),
+            role: redeemed.role,
+            pairingId: redeemed.pairingId,
+          };
+          deviceSecret = redeemed.deviceSecret;
+        } else {
+          await saveUnlockAttempts(recordFailure(attempts, now));
+        }
+      }
 
-      const pairing = findPairingByCode(pairingData, code);
-      if (pairing) {
-        // Save pairing permanently to secure storage
+      if (pairing && deviceSecret) {
+        // Save pairing and credential permanently to secure storage
+        await saveDeviceSecret(deviceSecret);
         await savePairing(pairing);
+        await clearPendingCode();
+        await clearUnlockAttempts();
         setStoredPairing(pairing);
         navigation.navigate("Chat");
         return true;
@@ -147,71 +410,93 @@ export default function CalculatorScreen() {
     [navigation, storedPairing]
   );
 
+  // Shown like a result, for reading out to the partner; null when
+  // offline, so the entry just calculates
+  const issuePairingCode = useCallback(async (): Promise<string | null> => {
+    const issued = await requestPairingCode(await getDeviceId());
+    if (!issued) return null;
+    await savePendingCode(issued);
+    return issued.code;
+  }, []);
+
   const handleDigitPress = useCallback(
     (digit: string) => {
-      if (display === "0" || waitingForOperand) {
-        setDisplay(digit);
-        setWaitingForOperand(false);
-      } else {
-        setDisplay(display + digit);
-      }
+      if (isProgrammer && !isDigitForBase(digit, integerFormat.base)) return;
+      applyEdit((state) => insertDigit(state, digit));
     },
-    [display, waitingForOperand]
+    [applyEdit, isProgrammer, integerFormat],
   );
 
   const handleOperatorPress = useCallback(
     (nextOperator: string) => {
-      // If the last character is an operator, replace it
-      const lastChar = display[display.length - 1];
-      const operators = ["+", "-", "×", "÷"];
-      if (operators.includes(lastChar)) {
-        setDisplay(display.slice(0, -1) + nextOperator);
-      } else {
-        setDisplay(display + nextOperator);
-      }
+      // Operators continue from a finished result rather than replacing it
+      setEditor(insertOperator(editor, nextOperator));
       setWaitingForOperand(false);
     },
-    [display]
+    [editor],
   );
 
-  const calculateExpression = (expr: string): number | null => {
-    try {
-      // Basic expression evaluator for +, -, ×, ÷
-      // We'll replace × with * and ÷ with /
-      const sanitizedExpr = expr.replace(/×/g, "*").replace(/÷/g, "/");
-      
-      // Check if it ends with an operator
-      if (["+", "-", "*", "/"].includes(sanitizedExpr.slice(-1))) {
-        return null;
+  // Starts a new operand at the cursor, replacing a finished result or a lone 0
+  const insertOperand = useCallback(
+    (text: string) => {
+      applyEdit((state) =>
+        state.text === "0" ? createEditorState(text) : insertText(state, text),
+      );
+    },
+    [applyEdit],
+  );
+
+  const handleScientificInsert = useCallback(
+    (text: string) => {
+      if (text === "^") {
+        handleOperatorPress(text);
+      } else if (CONTINUES_OPERAND.test(text)) {
+        setEditor(insertText(editor, text));
+        setWaitingForOperand(false);
+      } else {
+        insertOperand(text);
       }
+      setIsInverse(false);
+    },
+    [editor, handleOperatorPress, insertOperand],
+  );
 
-      // Use a simple evaluation logic
-      // Note: For a production app, a proper parser would be better
-      // but for simple calculator logic this is okay.
-      // We'll use Function as a safe-ish alternative to eval for simple math
-      const result = new Function(`return ${sanitizedExpr}`)();
-      return typeof result === "number" && isFinite(result) ? result : null;
-    } catch (e) {
-      return null;
-    }
-  };
+  const handleBackspace = useCallback(() => {
+    setEditor(deleteBackward(editor));
+    setWaitingForOperand(false);
+  }, [editor]);
 
   const livePreview = useCallback(() => {
-    // Only show preview if there's an operator in the expression
-    const operators = ["+", "-", "×", "÷"];
-    if (operators.some(op => display.includes(op))) {
-      return calculateExpression(display);
+    // Only show preview once the expression is more than a plain number
+    if (!PLAIN_NUMBER.test(display)) {
+      return evaluateDisplay(display);
     }
     return null;
-  }, [display]);
+  }, [display, evaluateDisplay]);
 
   const previewResult = livePreview();
+  const errorKind = failure?.editor === editor ? failure.kind : null;
 
   const handleEquals = useCallback(async () => {
-    // Check for 4-digit unlock code
+    // History is plain storage, so an entry that could be a stored
+    // sequence stays out of it even when it calculates
+    const resemblesSecret =
+      storedPairing !== null &&
+      [storedPairing.unlock, storedPairing.duress].some(
+        (secret) => secret !== undefined && couldMatch(secret, display),
+      );
+
+    // Check for the unlock sequence, or a pairing code while unpaired
     const potentialCode = display.replace(/[^0-9]/g, "");
-    if (potentialCode.length === 4) {
-      const unlocked = await checkForUnlockCode(potentialCode);
+    if (!storedPairing && potentialCode === PAIRING_REQUEST_CODE) {
+      const issuedCode = await issuePairingCode();
+      if (issuedCode !== null) {
+        setDisplay(issuedCode);
+        setWaitingForOperand(true);
+        return;
+      }
+    } else if (storedPairing || /^\d{4}$/.test(display)) {
+      const unlocked = await checkForUnlockCode(display);
       if (unlocked) {
         setDisplay("0");
         setWaitingForOperand(false);
@@ -219,198 +504,718 @@ export default function CalculatorScreen() {
       }
     }
 
-    const result = calculateExpression(display);
-    if (result !== null) {
-      setDisplay(String(result));
+    // = straight after a result repeats the last operation, so 5+3==
+    // gives 11; a negative result is bracketed for 2^3 style operators
+    const isRepeat =
+      waitingForOperand &&
+      repeatOperation !== null &&
+      PLAIN_NUMBER.test(display);
+    const expression = isRepeat
+      ? (display.startsWith("-") ? `(${display})` : display) +
+        repeatOperation.operator +
+        repeatOperation.operand
+      : display;
+
+    const result = calculateDisplay(expression);
+    if (result instanceof ExpressionError) {
+      setFailure({ editor, kind: result.kind });
+    } else {
+      const formatted = formatDisplay(result);
+      setDisplay(formatted);
       setWaitingForOperand(true);
+
+      // Only record real calculations, never a bare number
+      if (!PLAIN_NUMBER.test(expression)) {
+        if (!resemblesSecret) {
+          setHistory(await addHistoryEntry(history, expression, formatted));
+        }
+        if (!isRepeat) {
+          setRepeatOperation(isProgrammer ? null : lastOperation(display));
+        }
+      }
     }
-  }, [display, checkForUnlockCode]);
+  }, [
+    editor,
+    display,
+    waitingForOperand,
+    repeatOperation,
+    isProgrammer,
+    history,
+    storedPairing,
+    checkForUnlockCode,
+    issuePairingCode,
+    setDisplay,
+    calculateDisplay,
+    formatDisplay,
+  ]);
+
+  // Text typed into the display on a native hardware keyboard,
+  // in the device's number format
+  const handleTypedText = useCallback(
+    (text: string) => {
+      // = finishes the calculation, so a typed unlock code still works
+      if (text.includes("=")) {
+        handleEquals();
+        return;
+      }
+      const previous = localizedDisplay.text;
+      let suffix = 0;
+      while (
+        suffix < previous.length &&
+        suffix < text.length &&
+        previous[previous.length - 1 - suffix] ===
+          text[text.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+      const parse = (value: string) =>
+        isProgrammer ? value : delocalizeExpression(value, numberLocale);
+      const canonical = parse(text);
+      setEditor(
+        canonical === ""
+          ? createEditorState("0")
+          : {
+              text: canonical,
+              cursor: parse(text.slice(0, text.length - suffix)).length,
+            },
+      );
+      setWaitingForOperand(false);
+    },
+    [localizedDisplay, isProgrammer, numberLocale, handleEquals],
+  );
+
+  // ============================================
+  // HISTORY - Reuse a past expression or result
+  // ============================================
+  const handleHistoryExpression = useCallback(
+    (expression: string) => {
+      setDisplay(expression);
+      setWaitingForOperand(false);
+      setIsHistoryOpen(false);
+    },
+    [setDisplay],
+  );
+
+  const handleHistoryResult = useCallback(
+    (result: string) => {
+      insertOperand(result);
+      setIsHistoryOpen(false);
+    },
+    [insertOperand],
+  );
+
+  const handleClearHistory = useCallback(async () => {
+    await clearHistory();
+    setHistory([]);
+  }, []);
+
+  // ============================================
+  // MEMORY - M+ and M− finish the current calculation first,
+  // like pressing = on a hardware calculator
+  // ============================================
+  const updateMemory = useCallback((value: Decimal | null) => {
+    const next = value === null || value.isZero() ? null : value;
+    setMemory(next);
+    saveMemory(next);
+  }, []);
+
+  const handleMemoryAccumulate = useCallback(
+    (sign: 1 | -1) => {
+      const result = evaluateDisplay(display);
+      if (result === null) return;
+
+      const current = memory ?? Decimal.ZERO;
+      updateMemory(sign === 1 ? current.add(result) : current.sub(result));
+      setDisplay(formatDisplay(result));
+      setWaitingForOperand(true);
+    },
+    [display, memory, updateMemory, setDisplay, evaluateDisplay, formatDisplay],
+  );
+
+  const handleMemoryRecall = useCallback(() => {
+    if (memory !== null) {
+      insertOperand(formatDisplay(memory));
+      // Like a result, the recalled value is replaced by the next digit
+      setWaitingForOperand(true);
+    }
+  }, [memory, insertOperand, formatDisplay]);
 
   const handleClear = useCallback(() => {
     setDisplay("0");
     setWaitingForOperand(false);
-  }, []);
+    setRepeatOperation(null);
+  }, [setDisplay]);
 
+  // Only the operand at the cursor changes sign, 5+3 becomes 5+(-3)
   const handleToggleSign = useCallback(() => {
-    // For expression based, we just negate the current result if possible
-    const result = calculateExpression(display);
-    if (result !== null) {
-      setDisplay(String(-result));
+    // A result such as 1.5E-7 is one number; its exponent keeps its sign
+    if (!isProgrammer && PLAIN_NUMBER.test(display)) {
+      setDisplay(display.startsWith("-") ? display.slice(1) : `-${display}`);
+      return;
     }
-  }, [display]);
+    setEditor(toggleSign(editor));
+  }, [display, editor, isProgrammer, setDisplay]);
 
+  // The engine resolves % against the left operand: 200+10% is 220
   const handlePercent = useCallback(() => {
-    const result = calculateExpression(display);
-    if (result !== null) {
-      setDisplay(String(result / 100));
-    }
-  }, [display]);
+    setEditor(insertText(editor, "%"));
+    setWaitingForOperand(false);
+  }, [editor]);
 
   const handleDecimal = useCallback(() => {
-    const lastPart = display.split(/[\+\-\×\÷]/).pop() || "";
-    if (!lastPart.includes(".")) {
-      setDisplay(display + ".");
-    }
-  }, [display]);
+    applyEdit(insertDecimal);
+  }, [applyEdit]);
+
+  // ============================================
+  // PROGRAMMER MODE - Base, word size and signedness changes
+  // carry the current value over instead of clearing it
+  // ============================================
+  const switchNumberFormat = useCallback(
+    (programmer: boolean, format: IntegerFormat) => {
+      const value = evaluateDisplay(display);
+      setIsProgrammer(programmer);
+      setIntegerFormat(format);
+      setDisplay(
+        value === null
+          ? "0"
+          : formatNumber(
+              value,
+              programmer
+                ? { mode: "programmer", ...format }
+                : { mode: "decimal", maxDigits: MAX_DISPLAY_DIGITS },
+            ),
+      );
+      setWaitingForOperand(true);
+      setRepeatOperation(null);
+    },
+    [display, evaluateDisplay, setDisplay],
+  );
+
+  // Digits outside the current base are greyed out
+  const isDigitDisabled = (digit: string) =>
+    isProgrammer && !isDigitForBase(digit, integerFormat.base);
+
+  const handleProgrammerInsert = useCallback(
+    (text: string) => {
+      if (isDigitForBase(text, integerFormat.base)) {
+        handleDigitPress(text);
+      } else if (CONTINUES_OPERAND.test(text)) {
+        setEditor(insertText(editor, text));
+        setWaitingForOperand(false);
+      } else {
+        insertOperand(text);
+      }
+    },
+    [editor, integerFormat, handleDigitPress, insertOperand],
+  );
+
+  const handleParentheses = useCallback(() => {
+    const parenthesis = nextParenthesis(editor);
+    if (isProgrammer) handleProgrammerInsert(parenthesis);
+    else handleScientificInsert(parenthesis);
+  }, [editor, isProgrammer, handleProgrammerInsert, handleScientificInsert]);
 
-  const formatDisplay = (value: string): string => {
-    const num = parseFloat(value);
-    if (isNaN(num)) return value;
-    if (value.length > 12) {
-      return num.toExponential(3);
+  // ============================================
+  // CLIPBOARD - Paste only what the parser accepts
+  // ============================================
+  const handleCopy = useCallback(() => {
+    Clipboard.setStringAsync(localizedDisplay.text);
+  }, [localizedDisplay]);
+
+  // Called without waiting, so nothing may reject: a clipboard that
+  // can't be read, or text the parser chokes on, pastes nothing
+  const handlePaste = useCallback(async () => {
+    let pasted: string;
+    try {
+      pasted = (await Clipboard.getStringAsync()).trim();
+    } catch {
+      return;
     }
-    return value;
+    const text = isProgrammer
+      ? pasted.toUpperCase()
+      : delocalizeExpression(pasted, numberLocale);
+    try {
+      if (isProgrammer) {
+        checkProgrammerSyntax(text, integerFormat);
+      } else {
+        parseExpression(text);
+      }
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        setFailure({ editor, kind: error.kind });
+      }
+      return;
+    }
+    // Pasted into a calculation, 2+3 stays one operand
+    const isFresh = waitingForOperand || display === "0";
+    insertOperand(isFresh || PLAIN_NUMBER.test(text) ? text : `(${text})`);
+  }, [
+    editor,
+    display,
+    waitingForOperand,
+    isProgrammer,
+    integerFormat,
+    numberLocale,
+    insertOperand,
+  ]);
+
+  // ============================================
+  // HARDWARE KEYBOARD - Keys run the same handlers as the keypad,
+  // so Enter or = still checks for the unlock code
+  // ============================================
+  const handleHardwareKey = useCallback(
+    ({ key, isShortcut }: HardwareKey): boolean => {
+      if (isShortcut) {
+        if (key === "c") handleCopy();
+        else if (key === "v") handlePaste();
+        // Leave every other browser shortcut alone
+        else return false;
+        return true;
+      }
+
+      const programmerKey = PROGRAMMER_KEYS[key];
+      const operator = toOperator(key);
+      if (/^[0-9]$/.test(key)) {
+        handleDigitPress(key);
+      } else if (isProgrammer && /^[a-f]$/i.test(key)) {
+        handleDigitPress(key.toUpperCase());
+      } else if (isProgrammer && programmerKey !== undefined) {
+        handleProgrammerInsert(programmerKey);
+      } else if (operator !== null) {
+        handleOperatorPress(operator);
+      } else if (key === "." || key === numberLocale.decimalSeparator) {
+        if (!isProgrammer) handleDecimal();
+      } else if (key === "%") {
+        handlePercent();
+      } else if (key === "(" || key === ")") {
+        if (isProgrammer) handleProgrammerInsert(key);
+        else handleScientificInsert(key);
+      } else if (key === "!" && !isProgrammer) {
+        handleScientificInsert(key);
+      } else if (key === "Enter" || key === "=") {
+        handleEquals();
+      } else if (key === "Backspace") {
+        handleBackspace();
+      } else if (key === "Escape") {
+        handleClear();
+      } else {
+        return false;
+      }
+      return true;
+    },
+    [
+      isProgrammer,
+      numberLocale,
+      handleCopy,
+      handlePaste,
+      handleDigitPress,
+      handleProgrammerInsert,
+      handleOperatorPress,
+      handleDecimal,
+      handlePercent,
+      handleScientificInsert,
+      handleEquals,
+      handleBackspace,
+      handleClear,
+    ],
+  );
+
+  useHardwareKeyboard(handleHardwareKey);
+
+  const modeMenuItems: ModeMenuItem[] = [
+    {
+      label: "Copy",
+      icon: "copy",
+      onPress: handleCopy,
+      testID: "menu-copy",
+    },
+    {
+      label: "Paste",
+      icon: "clipboard",
+      onPress: handlePaste,
+      testID: "menu-paste",
+    },
+    isProgrammer
+      ? {
+          label: "Standard",
+          icon: "hash",
+          onPress: () => switchNumberFormat(false, integerFormat),
+          testID: "menu-standard",
+        }
+      : {
+          label: "Programmer",
+          icon: "code",
+          onPress: () => switchNumberFormat(true, integerFormat),
+          testID: "menu-programmer",
+        },
+    {
+      label: "Graph",
+      icon: "trending-up",
+      onPress: () => navigation.navigate("Graph"),
+      testID: "menu-graph",
+    },
+    {
+      label: "Equation solver",
+      icon: "divide-square",
+      onPress: () => navigation.navigate("Solver"),
+      testID: "menu-solver",
+    },
+    {
+      label: "Statistics",
+      icon: "bar-chart-2",
+      onPress: () => navigation.navigate("Statistics"),
+      testID: "menu-statistics",
+    },
+    {
+      label: "Dates",
+      icon: "calendar",
+      onPress: () => navigation.navigate("Date"),
+      testID: "menu-date",
+    },
+    {
+      label: "Finance",
+      icon: "dollar-sign",
+      onPress: () => navigation.navigate("Finance"),
+      testID: "menu-finance",
+    },
+    {
+      label: "Unit converter",
+      icon: "repeat",
+      onPress: () => navigation.navigate("Converter"),
+      testID: "menu-converter",
+    },
+    {
+      label: "Appearance",
+      icon: "droplet",
+      onPress: () => setIsSkinMenuOpen(true),
+      testID: "menu-appearance",
+    },
+  ];
+
+  const skinMenuItems: ModeMenuItem[] = SKIN_IDS.map((id) => ({
+    label: CALCULATOR_SKINS[id].name,
+    icon: id === skin.id ? "check-circle" : "circle",
+    onPress: () => setSkinId(id),
+    testID: `menu-skin-${id}`,
+  }));
+
+  // ============================================
+  // KEYPAD - Each skin arranges these keys its own way
+  // ============================================
+  const operatorKey = (label: string, testID: string): KeypadKeySpec => ({
+    label,
+    onPress: () => handleOperatorPress(label),
+    role: "operator",
+    testID,
+  });
+  const digitKey = (digit: string): KeypadKeySpec => ({
+    label: digit,
+    onPress: () => handleDigitPress(digit),
+    isDisabled: isDigitDisabled(digit),
+    testID: `button-${digit}`,
+  });
+  const keypadKeys: Record<KeypadKey, KeypadKeySpec> = {
+    clear: {
+      label: "AC",
+      onPress: handleClear,
+      role: "function",
+      testID: "button-clear",
+    },
+    sign: {
+      label: "+/-",
+      onPress: handleToggleSign,
+      role: "function",
+      testID: "button-sign",
+    },
+    percent: {
+      label: "%",
+      onPress: handlePercent,
+      role: "function",
+      isDisabled: isProgrammer,
+      testID: "button-percent",
+    },
+    parentheses: {
+      label: "( )",
+      onPress: handleParentheses,
+      role: "function",
+      testID: "button-parentheses",
+    },
+    backspace: {
+      label: "⌫",
+      onPress: handleBackspace,
+      role: "function",
+      testID: "button-keypad-backspace",
+    },
+    divide: operatorKey("÷", "button-divide"),
+    multiply: operatorKey("×", "button-multiply"),
+    subtract: operatorKey("-", "button-subtract"),
+    add: operatorKey("+", "button-add"),
+    equals: {
+      label: "=",
+      onPress: handleEquals,
+      role: "equals",
+      testID: "button-equals",
+    },
+    decimal: {
+      label: numberLocale.decimalSeparator,
+      onPress: handleDecimal,
+      isDisabled: isProgrammer,
+      testID: "button-decimal",
+    },
+    "0": digitKey("0"),
+    "1": digitKey("1"),
+    "2": digitKey("2"),
+    "3": digitKey("3"),
+    "4": digitKey("4"),
+    "5": digitKey("5"),
+    "6": digitKey("6"),
+    "7": digitKey("7"),
+    "8": digitKey("8"),
+    "9": digitKey("9"),
   };
 
+  // Swipe across the display to delete, like stock calculators
+  const swipeToDelete = Gesture.Fling()
+    .direction(Directions.LEFT | Directions.RIGHT)
+    .runOnJS(true)
+    .onEnd(handleBackspace);
+
+  const textColor = { color: colors.displayText };
+
   return (
-    <View style={styles.container}>
-      <StatusBar style="light" />
-      
-      <View style={styles.displayContainer}>
-        <Text
-          style={styles.displayText}
-          numberOfLines={1}
-          adjustsFontSizeToFit
-          testID="calculator-display"
-        >
-          {display}
-        </Text>
-        {previewResult !== null && (
-          <Text
-            style={styles.previewText}
-            numberOfLines={1}
-            adjustsFontSizeToFit
-          >
-            {formatDisplay(String(previewResult))}
-          </Text>
-        )}
-      </View>
+    <CalculatorThemeContext.Provider value={theme}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar style={theme.isDark ? "light" : "dark"} />
 
-      <View style={styles.buttonContainer}>
-        <View style={styles.row}>
-          <CalculatorButton
-            label="AC"
-            onPress={handleClear}
-            testID="button-clear"
-          />
-          <CalculatorButton
-            label="+/-"
-            onPress={handleToggleSign}
-            testID="button-sign"
-          />
-          <CalculatorButton
-            label="%"
-            onPress={handlePercent}
-            testID="button-percent"
-          />
-          <CalculatorButton
-            label="÷"
-            onPress={() => handleOperatorPress("÷")}
-            isOperator
-            testID="button-divide"
-          />
+        <View style={styles.displayContainer}>
+          <Pressable
+            onPress={() => setIsModeMenuOpen(true)}
+            style={styles.modeMenuButton}
+            testID="button-mode-menu"
+          >
+            <Feather
+              name="more-vertical"
+              size={22}
+              color={colors.displayText}
+            />
+          </Pressable>
+          <View style={styles.indicators}>
+            {isProgrammer ? (
+              <Text
+                style={[styles.indicatorText, textColor]}
+                testID="base-indicator"
+              >
+                {BASE_LABELS[integerFormat.base]}
+                {integerFormat.signed ? " " : " U"}
+                {integerFormat.wordSize}
+              </Text>
+            ) : null}
+            {showScientific ? (
+              <Text
+                style={[styles.indicatorText, textColor]}
+                testID="angle-mode-indicator"
+              >
+                {angleMode.toUpperCase()}
+              </Text>
+            ) : null}
+            {memory !== null ? (
+              <Text
+                style={[styles.indicatorText, textColor]}
+                testID="memory-indicator"
+              >
+                M
+              </Text>
+            ) : null}
+          </View>
+          <GestureDetector gesture={swipeToDelete}>
+            {/* Editable for the cursor only; the keypad replaces the keyboard */}
+            <TextInput
+              value={localizedDisplay.text}
+              selection={{
+                start: localizedDisplay.positions[editor.cursor],
+                end: localizedDisplay.positions[editor.cursor],
+              }}
+              onSelectionChange={(event) =>
+                setEditor(
+                  moveCursor(
+                    editor,
+                    toCanonicalCursor(
+                      localizedDisplay,
+                      event.nativeEvent.selection.start,
+                    ),
+                  ),
+                )
+              }
+              onChangeText={handleTypedText}
+              onSubmitEditing={handleEquals}
+              submitBehavior="submit"
+              showSoftInputOnFocus={false}
+              contextMenuHidden
+              caretHidden={false}
+              selectionColor={colors.accent}
+              style={[
+                styles.displayText,
+                {
+                  color: colors.displayText,
+                  fontSize: displayFontSize(localizedDisplay.text.length),
+                  fontWeight: skin.displayFontWeight,
+                },
+              ]}
+              testID="calculator-display"
+            />
+          </GestureDetector>
+          {errorKind !== null ? (
+            <Text
+              style={[styles.previewText, styles.errorText]}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+              testID="calculator-error"
+            >
+              {ERROR_MESSAGES[errorKind]}
+            </Text>
+          ) : null}
+          {previewResult !== null && (
+            <Text
+              style={[
+                styles.previewText,
+                {
+                  color: colors.displayText,
+                  fontWeight: skin.displayFontWeight,
+                },
+              ]}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {localize(formatDisplay(previewResult)).text}
+            </Text>
+          )}
         </View>
 
-        <View style={styles.row}>
-          <CalculatorButton
-            label="7"
-            onPress={() => handleDigitPress("7")}
-            testID="button-7"
-          />
-          <CalculatorButton
-            label="8"
-            onPress={() => handleDigitPress("8")}
-            testID="button-8"
-          />
-          <CalculatorButton
-            label="9"
-            onPress={() => handleDigitPress("9")}
-            testID="button-9"
-          />
-          <CalculatorButton
-            label="×"
-            onPress={() => handleOperatorPress("×")}
-            isOperator
-            testID="button-multiply"
-          />
-        </View>
+        <View style={[styles.buttonContainer, { width: keysWidth }]}>
+          <View style={styles.toolbar}>
+            <Pressable
+              onPress={() => setIsHistoryOpen(true)}
+              style={styles.toolbarButton}
+              testID="button-history"
+            >
+              <Feather name="clock" size={20} color={colors.displayText} />
+            </Pressable>
+            <MemoryBar
+              hasMemory={memory !== null}
+              onClear={() => updateMemory(null)}
+              onRecall={handleMemoryRecall}
+              onAdd={() => handleMemoryAccumulate(1)}
+              onSubtract={() => handleMemoryAccumulate(-1)}
+            />
+            <Pressable
+              onPress={handleBackspace}
+              onLongPress={handleClear}
+              style={styles.toolbarButton}
+              testID="button-backspace"
+            >
+              <Feather name="delete" size={20} color={colors.displayText} />
+            </Pressable>
+            {!isLandscape && !isProgrammer ? (
+              <Pressable
+                onPress={() => setIsScientificOpen(!isScientificOpen)}
+                style={styles.toolbarButton}
+                testID="button-scientific-toggle"
+              >
+                <Feather
+                  name={isScientificOpen ? "chevron-down" : "chevron-up"}
+                  size={22}
+                  color={colors.displayText}
+                />
+              </Pressable>
+            ) : null}
+          </View>
 
-        <View style={styles.row}>
-          <CalculatorButton
-            label="4"
-            onPress={() => handleDigitPress("4")}
-            testID="button-4"
-          />
-          <CalculatorButton
-            label="5"
-            onPress={() => handleDigitPress("5")}
-            testID="button-5"
-          />
-          <CalculatorButton
-            label="6"
-            onPress={() => handleDigitPress("6")}
-            testID="button-6"
-          />
-          <CalculatorButton
-            label="-"
-            onPress={() => handleOperatorPress("-")}
-            isOperator
-            testID="button-subtract"
-          />
-        </View>
+          <View style={isLandscape ? styles.landscapeKeys : null}>
+            {isProgrammer ? (
+              <ProgrammerPanel
+                format={integerFormat}
+                value={evaluateDisplay(display)}
+                onChangeBase={(base) =>
+                  switchNumberFormat(true, { ...integerFormat, base })
+                }
+                onChangeWordSize={(wordSize) =>
+                  switchNumberFormat(true, { ...integerFormat, wordSize })
+                }
+                onToggleSigned={() =>
+                  switchNumberFormat(true, {
+                    ...integerFormat,
+                    signed: !integerFormat.signed,
+                  })
+                }
+                onInsert={handleProgrammerInsert}
+              />
+            ) : null}
 
-        <View style={styles.row}>
-          <CalculatorButton
-            label="1"
-            onPress={() => handleDigitPress("1")}
-            testID="button-1"
-          />
-          <CalculatorButton
-            label="2"
-            onPress={() => handleDigitPress("2")}
-            testID="button-2"
-          />
-          <CalculatorButton
-            label="3"
-            onPress={() => handleDigitPress("3")}
-            testID="button-3"
-          />
-          <CalculatorButton
-            label="+"
-            onPress={() => handleOperatorPress("+")}
-            isOperator
-            testID="button-add"
-          />
+            {showScientific ? (
+              <ScientificPanel
+                angleMode={angleMode}
+                isInverse={isInverse}
+                onToggleAngleMode={() =>
+                  setAngleMode(angleMode === "deg" ? "rad" : "deg")
+                }
+                onToggleInverse={() => setIsInverse(!isInverse)}
+                onInsert={handleScientificInsert}
+              />
+            ) : null}
+
+            <View style={{ width: layout.keypadWidth }}>
+              {skin.keypad.map((row, index) => (
+                <View key={index} style={styles.row}>
+                  {row.map((id, column) => {
+                    const key = keypadKeys[id];
+                    return (
+                      <CalculatorButton
+                        key={id}
+                        label={key.label}
+                        onPress={key.onPress}
+                        isOperator={key.role === "operator"}
+                        isFunction={key.role === "function"}
+                        isEquals={key.role === "equals"}
+                        isWide={row.length === 3 && column === 0}
+                        isDisabled={key.isDisabled}
+                        testID={key.testID}
+                      />
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+          </View>
         </View>
 
-        <View style={styles.row}>
-          <CalculatorButton
-            label="0"
-            onPress={() => handleDigitPress("0")}
-            isWide
-            testID="button-0"
-          />
-          <CalculatorButton
-            label="."
-            onPress={handleDecimal}
-            testID="button-decimal"
-          />
-          <CalculatorButton
-            label="="
-            onPress={handleEquals}
-            isOperator
-            testID="button-equals"
+        {isHistoryOpen ? (
+          <HistoryDrawer
+            entries={history}
+            onSelectExpression={handleHistoryExpression}
+            onSelectResult={handleHistoryResult}
+            onClear={handleClearHistory}
+            onClose={() => setIsHistoryOpen(false)}
           />
-        </View>
+        ) : null}
+
+        <ModeMenu
+          visible={isModeMenuOpen}
+          items={modeMenuItems}
+          onClose={() => setIsModeMenuOpen(false)}
+        />
+        <ModeMenu
+          visible={isSkinMenuOpen}
+          items={skinMenuItems}
+          onClose={() => setIsSkinMenuOpen(false)}
+        />
       </View>
-    </View>
+    </CalculatorThemeContext.Provider>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: CalculatorColors.background,
     justifyContent: "flex-end",
   },
   displayContainer: {
@@ -421,49 +1226,62 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
   },
   displayText: {
-    color: CalculatorColors.displayText,
+    alignSelf: "stretch",
     fontSize: 60,
-    fontWeight: "300",
     textAlign: "right",
     marginBottom: 10,
+    padding: 0,
   },
   previewText: {
-    color: CalculatorColors.displayText,
     opacity: 0.6,
     fontSize: 40,
     fontWeight: "300",
     textAlign: "right",
   },
+  errorText: {
+    color: "#FF453A",
+    opacity: 1,
+  },
   buttonContainer: {
-    paddingHorizontal: 12,
+    alignSelf: "center",
     paddingBottom: 24,
   },
+  landscapeKeys: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: BUTTON_MARGIN,
+  },
   row: {
     flexDirection: "row",
     justifyContent: "space-between",
     marginBottom: BUTTON_MARGIN,
   },
-  button: {
-    width: BUTTON_SIZE,
-    height: BUTTON_SIZE,
-    borderRadius: BUTTON_SIZE / 2,
-    backgroundColor: CalculatorColors.numberButton,
-    justifyContent: "center",
-    alignItems: "center",
+  modeMenuButton: {
+    position: "absolute",
+    top: 8,
+    right: 12,
+    padding: 8,
   },
-  operatorButton: {
-    backgroundColor: CalculatorColors.operatorButton,
+  indicators: {
+    position: "absolute",
+    top: 16,
+    left: 24,
+    flexDirection: "row",
+    gap: 12,
   },
-  wideButton: {
-    width: BUTTON_SIZE * 2 + BUTTON_MARGIN,
-    borderRadius: BUTTON_SIZE / 2,
+  indicatorText: {
+    opacity: 0.6,
+    fontSize: 14,
+    fontWeight: "500",
   },
-  buttonText: {
-    color: CalculatorColors.buttonText,
-    fontSize: Typography.calculatorButton.fontSize,
-    fontWeight: Typography.calculatorButton.fontWeight,
+  toolbar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: BUTTON_MARGIN,
   },
-  operatorButtonText: {
-    fontSize: 28,
+  toolbarButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
   },
 });
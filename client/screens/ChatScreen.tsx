@@ -27,7 +27,7 @@ import Animated, {
   FadeIn,
   FadeOut,
 } from "react-native-reanimated";
-import { useNavigation } from "@react-navigation/native";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { ChatColors, BorderRadius, Spacing } from "@/constants/theme";
@@ -39,7 +39,12 @@ import {
   sendTypingEvent,
   getTypingStatus,
   sendReadReceipt,
+  getDuressAlert,
+  acknowledgeDuressAlert,
+  hasPairingEnded,
 } from "@/lib/chat-api";
+import { decoyConversation } from "@/lib/duress";
+import { wipeConversation } from "@/lib/unpair";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -160,6 +165,9 @@ function EmptyState() {
 
 export default function ChatScreen() {
   const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RouteProp<RootStackParamList, "Chat">>();
+  // Opened with the duress code: made-up messages, no network at all
+  const isDecoy = route.params?.decoy ?? false;
   const insets = useSafeAreaInsets();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
@@ -167,6 +175,8 @@ export default function ChatScreen() {
   const [otherTyping, setOtherTyping] = useState(false);
   const [pairing, setPairing] = useState<PairingData | null>(null);
   const [isScreenVisible, setIsScreenVisible] = useState(true);
+  const [partnerDuressAt, setPartnerDuressAt] = useState<number | null>(null);
+  const [partnerUnpaired, setPartnerUnpaired] = useState(false);
   const flatListRef = useRef<FlatList>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -187,19 +197,21 @@ export default function ChatScreen() {
   }, []);
 
   useEffect(() => {
-    if (pairing && isScreenVisible) {
+    if (pairing && isScreenVisible && !isDecoy) {
       startPolling();
     }
     return () => {
       if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
     };
-  }, [pairing, isScreenVisible]);
+  }, [pairing, isScreenVisible, isDecoy]);
 
   const loadPairing = async () => {
     const stored = await getPairing();
     setPairing(stored);
-    
-    if (stored) {
+
+    if (stored && isDecoy) {
+      setMessages(decoyConversation(stored.role, Date.now()));
+    } else if (stored) {
       const history = await readChatHistory(`chat_${stored.role}.json`);
       if (history) {
         try {
@@ -233,7 +245,13 @@ export default function ChatScreen() {
     const poll = async () => {
       if (!pairing) return;
 
-      const newMessages = await fetchMessages(pairing.role);
+      const newMessages = await fetchMessages();
+      // The partner unpaired: keep what is on screen, stop asking
+      if (hasPairingEnded()) {
+        if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+        setPartnerUnpaired(true);
+        return;
+      }
       // Ensure messages are sorted descending for inverted FlatList (newest at index 0)
       const sortedMessages = [...newMessages].sort((a, b) => b.timestamp - a.timestamp);
       setMessages(sortedMessages);
@@ -249,15 +267,14 @@ export default function ChatScreen() {
           (m) => m.sender !== pairing.role && !m.read
         );
         if (unreadMessages.length > 0) {
-          await sendReadReceipt(
-            pairing.role,
-            unreadMessages.map((m) => m.id)
-          );
+          await sendReadReceipt(unreadMessages.map((m) => m.id));
         }
       }
 
-      const typing = await getTypingStatus(pairing.role);
+      const typing = await getTypingStatus();
       setOtherTyping(typing);
+
+      setPartnerDuressAt(await getDuressAlert());
     };
 
     poll();
@@ -270,11 +287,11 @@ export default function ChatScreen() {
   const handleInputChange = (text: string) => {
     setInputText(text);
 
-    if (!pairing) return;
+    if (!pairing || isDecoy) return;
 
     if (text.length > 0 && !isTyping) {
       setIsTyping(true);
-      sendTypingEvent(pairing.role, true);
+      sendTypingEvent(true);
     }
 
     if (typingTimeoutRef.current) {
@@ -283,7 +300,7 @@ export default function ChatScreen() {
 
     typingTimeoutRef.current = setTimeout(() => {
       setIsTyping(false);
-      if (pairing) sendTypingEvent(pairing.role, false);
+      if (pairing) sendTypingEvent(false);
     }, 2000);
   };
 
@@ -301,10 +318,24 @@ export default function ChatScreen() {
 
     const text = inputText.trim();
     setInputText("");
+
+    // Stays on this screen, and is gone once it closes
+    if (isDecoy) {
+      const localMessage: Message = {
+        id: `decoy_${Date.now()}`,
+        text,
+        sender: pairing.role,
+        timestamp: Date.now(),
+        read: false,
+      };
+      setMessages((prev) => [localMessage, ...prev]);
+      return;
+    }
+
     setIsTyping(false);
-    sendTypingEvent(pairing.role, false);
+    sendTypingEvent(false);
 
-    const newMessage = await sendMessage(pairing.role, text);
+    const newMessage = await sendMessage(text);
     if (newMessage) {
       setMessages((prev) => {
         const updated = [newMessage, ...prev];
@@ -337,7 +368,10 @@ export default function ChatScreen() {
           text: "Delete",
           style: "destructive",
           onPress: async () => {
-            if (pairing) {
+            if (isDecoy) {
+              setMessages([]);
+              setMenuVisible(false);
+            } else if (pairing) {
               await deleteChatHistory(`chat_${pairing.role}.json`);
               setMessages([]);
               setMenuVisible(false);
@@ -348,6 +382,16 @@ export default function ChatScreen() {
     );
   };
 
+  const handleRemoveConversation = async () => {
+    await wipeConversation();
+    navigation.navigate("Calculator");
+  };
+
+  const handleDismissDuressAlert = () => {
+    setPartnerDuressAt(null);
+    acknowledgeDuressAlert();
+  };
+
   const renderHeader = () => (
     <View style={[styles.header, { paddingTop: insets.top }]}>
       <Pressable
@@ -375,6 +419,30 @@ export default function ChatScreen() {
         <TouchableWithoutFeedback onPress={() => setMenuVisible(false)}>
           <View style={styles.modalOverlay}>
             <View style={styles.menuContent}>
+              {isDecoy ? null : (
+                <Pressable
+                  style={styles.menuItem}
+                  onPress={() => {
+                    setMenuVisible(false);
+                    navigation.navigate("Settings");
+                  }}
+                  testID="button-settings"
+                >
+                  <Feather
+                    name="settings"
+                    size={20}
+                    color={ChatColors.textPrimary}
+                  />
+                  <Text
+                    style={[
+                      styles.menuItemText,
+                      { color: ChatColors.textPrimary },
+                    ]}
+                  >
+                    Settings
+                  </Text>
+                </Pressable>
+              )}
               <Pressable
                 style={styles.menuItem}
                 onPress={handleClearChat}
@@ -394,6 +462,23 @@ export default function ChatScreen() {
       <StatusBar style="light" />
       {renderHeader()}
 
+      {partnerDuressAt !== null ? (
+        <View style={styles.duressBanner}>
+          <Feather name="alert-triangle" size={18} color="#FF453A" />
+          <Text style={styles.duressBannerText}>
+            Your contact entered their duress code at{" "}
+            {new Date(partnerDuressAt).toLocaleTimeString()}. They may not be
+            safe to talk to.
+          </Text>
+          <Pressable
+            onPress={handleDismissDuressAlert}
+            testID="button-dismiss-duress"
+          >
+            <Feather name="x" size={18} color={ChatColors.textSecondary} />
+          </Pressable>
+        </View>
+      ) : null}
+
       <KeyboardAvoidingView
         style={styles.chatContainer}
         behavior="padding"
@@ -424,42 +509,62 @@ export default function ChatScreen() {
           testID="message-list"
         />
 
-        <View
-          style={[
-            styles.inputContainer,
-            { paddingBottom: insets.bottom + Spacing.md },
-          ]}
-        >
-          <View style={styles.inputWrapper}>
-            <TextInput
-              style={styles.textInput}
-              placeholder="Type a message..."
-              placeholderTextColor={ChatColors.textSecondary}
-              value={inputText}
-              onChangeText={handleInputChange}
-              multiline
-              maxLength={1000}
-              testID="input-message"
-            />
+        {partnerUnpaired ? (
+          <View
+            style={[
+              styles.unpairedContainer,
+              { paddingBottom: insets.bottom + Spacing.md },
+            ]}
+          >
+            <Text style={styles.unpairedText}>
+              Your contact unpaired. No more messages can be sent or received.
+            </Text>
+            <Pressable
+              onPress={handleRemoveConversation}
+              style={styles.unpairedButton}
+              testID="button-remove-conversation"
+            >
+              <Text style={styles.unpairedButtonText}>Remove conversation</Text>
+            </Pressable>
           </View>
-
-          <AnimatedPressable
-            onPress={handleSend}
-            style={[styles.sendButton, sendButtonAnimatedStyle]}
-            disabled={!inputText.trim()}
-            testID="button-send"
+        ) : (
+          <View
+            style={[
+              styles.inputContainer,
+              { paddingBottom: insets.bottom + Spacing.md },
+            ]}
           >
-            <Feather
-              name="send"
-              size={20}
-              color={
-                inputText.trim()
-                  ? ChatColors.textPrimary
-                  : ChatColors.textSecondary
-              }
-            />
-          </AnimatedPressable>
-        </View>
+            <View style={styles.inputWrapper}>
+              <TextInput
+                style={styles.textInput}
+                placeholder="Type a message..."
+                placeholderTextColor={ChatColors.textSecondary}
+                value={inputText}
+                onChangeText={handleInputChange}
+                multiline
+                maxLength={1000}
+                testID="input-message"
+              />
+            </View>
+
+            <AnimatedPressable
+              onPress={handleSend}
+              style={[styles.sendButton, sendButtonAnimatedStyle]}
+              disabled={!inputText.trim()}
+              testID="button-send"
+            >
+              <Feather
+                name="send"
+                size={20}
+                color={
+                  inputText.trim()
+                    ? ChatColors.textPrimary
+                    : ChatColors.textSecondary
+                }
+              />
+            </AnimatedPressable>
+          </View>
+        )}
       </KeyboardAvoidingView>
     </View>
   );
@@ -525,6 +630,40 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "500",
   },
+  unpairedContainer: {
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+    backgroundColor: ChatColors.inputBarBackground,
+  },
+  unpairedText: {
+    color: ChatColors.textSecondary,
+    fontSize: 14,
+    textAlign: "center",
+  },
+  unpairedButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
+  unpairedButtonText: {
+    color: "#FF453A",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  duressBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    backgroundColor: "#3A1F1D",
+  },
+  duressBannerText: {
+    flex: 1,
+    color: ChatColors.textPrimary,
+    fontSize: 14,
+  },
   headerRight: {
     width: 40,
   },
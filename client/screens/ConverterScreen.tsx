@@ -0,0 +1,444 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Modal,
+  FlatList,
+  TouchableWithoutFeedback,
+} from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+
+import { CalculatorColors, BorderRadius, Spacing } from "@/constants/theme";
+import {
+  CalculatorButton,
+  BUTTON_MARGIN,
+  useKeypadLayout,
+} from "@/components/CalculatorButton";
+import { calculateExpression } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import {
+  EditorState,
+  createEditorState,
+  insertDigit,
+  insertDecimal,
+  deleteBackward,
+} from "@/lib/expression-editor";
+import {
+  UNIT_CATEGORIES,
+  UnitCategoryId,
+  Unit,
+  getCategory,
+  getUnit,
+  convertUnit,
+} from "@/lib/unit-conversion";
+import { localizeExpression } from "@/lib/locale-format";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+type Field = "from" | "to";
+
+const MAX_DISPLAY_DIGITS = 12;
+
+// ============================================
+// UNIT FIELD - Tap the value to type into it, the unit to change it
+// ============================================
+function UnitField({
+  unit,
+  value,
+  isActive,
+  onActivate,
+  onPickUnit,
+  testID,
+}: {
+  unit: Unit;
+  value: string;
+  isActive: boolean;
+  onActivate: () => void;
+  onPickUnit: () => void;
+  testID: string;
+}) {
+  return (
+    <View style={styles.field}>
+      <Pressable
+        onPress={onPickUnit}
+        style={styles.unitSelector}
+        testID={`${testID}-unit`}
+      >
+        <Text style={styles.unitSymbol}>{unit.symbol}</Text>
+        <Feather
+          name="chevron-down"
+          size={16}
+          color={CalculatorColors.displayText}
+        />
+      </Pressable>
+      <Pressable onPress={onActivate} testID={`${testID}-value`}>
+        <Text
+          style={[styles.fieldValue, isActive && styles.activeFieldValue]}
+          numberOfLines={1}
+          adjustsFontSizeToFit
+        >
+          {value}
+        </Text>
+        <Text style={styles.unitName}>{unit.name}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+export default function ConverterScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const { keypadWidth } = useKeypadLayout();
+  const numberLocale = useNumberLocale();
+  const [categoryId, setCategoryId] = useState<UnitCategoryId>("length");
+  const category = getCategory(categoryId);
+  const [fromUnitId, setFromUnitId] = useState(category.defaultFrom);
+  const [toUnitId, setToUnitId] = useState(category.defaultTo);
+  const [activeField, setActiveField] = useState<Field>("from");
+  const [input, setInput] = useState<EditorState>(createEditorState("1"));
+  const [pickerField, setPickerField] = useState<Field | null>(null);
+  // The first key typed into a shown value replaces it
+  const [replaceOnInput, setReplaceOnInput] = useState(true);
+
+  const fromUnit = getUnit(category, fromUnitId);
+  const toUnit = getUnit(category, toUnitId);
+
+  // The active field shows what was typed; the other one follows it live
+  const inputValue = calculateExpression(input.text) ?? Decimal.ZERO;
+  const convertedValue =
+    activeField === "from"
+      ? convertUnit(inputValue, fromUnit, toUnit)
+      : convertUnit(inputValue, toUnit, fromUnit);
+  const convertedText = convertedValue.toDisplayString(MAX_DISPLAY_DIGITS);
+  const fromText = activeField === "from" ? input.text : convertedText;
+  const toText = activeField === "to" ? input.text : convertedText;
+  const localize = (text: string) =>
+    localizeExpression(text, numberLocale).text;
+
+  const handleSelectCategory = useCallback((id: UnitCategoryId) => {
+    const next = getCategory(id);
+    setCategoryId(id);
+    setFromUnitId(next.defaultFrom);
+    setToUnitId(next.defaultTo);
+    setActiveField("from");
+    setInput(createEditorState("1"));
+    setReplaceOnInput(true);
+  }, []);
+
+  const editInput = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      setInput(edit(replaceOnInput ? createEditorState("0") : input));
+      setReplaceOnInput(false);
+    },
+    [input, replaceOnInput],
+  );
+
+  const handleActivate = useCallback(
+    (field: Field) => {
+      if (field === activeField) return;
+      // Keep editing from the value that was on screen
+      setInput(createEditorState(convertedText));
+      setActiveField(field);
+      setReplaceOnInput(true);
+    },
+    [activeField, convertedText],
+  );
+
+  const handlePickUnit = useCallback(
+    (unitId: string) => {
+      if (pickerField === "from") setFromUnitId(unitId);
+      if (pickerField === "to") setToUnitId(unitId);
+      setPickerField(null);
+    },
+    [pickerField],
+  );
+
+  const handleSwap = useCallback(() => {
+    setFromUnitId(toUnitId);
+    setToUnitId(fromUnitId);
+  }, [fromUnitId, toUnitId]);
+
+  const handleToggleSign = useCallback(() => {
+    const text = input.text.startsWith("-")
+      ? input.text.slice(1)
+      : `-${input.text}`;
+    setInput(createEditorState(text));
+  }, [input]);
+
+  const digitButton = (digit: string) => (
+    <CalculatorButton
+      label={digit}
+      onPress={() => editInput((state) => insertDigit(state, digit))}
+      testID={`button-${digit}`}
+    />
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Convert</Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.categoryList}
+        contentContainerStyle={styles.categoryListContent}
+      >
+        {UNIT_CATEGORIES.map((item) => (
+          <Pressable
+            key={item.id}
+            onPress={() => handleSelectCategory(item.id)}
+            style={[
+              styles.categoryChip,
+              item.id === categoryId && styles.activeCategoryChip,
+            ]}
+            testID={`category-${item.id}`}
+          >
+            <Text style={styles.categoryText}>{item.name}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.fields}>
+        <UnitField
+          unit={fromUnit}
+          value={localize(fromText)}
+          isActive={activeField === "from"}
+          onActivate={() => handleActivate("from")}
+          onPickUnit={() => setPickerField("from")}
+          testID="field-from"
+        />
+        <UnitField
+          unit={toUnit}
+          value={localize(toText)}
+          isActive={activeField === "to"}
+          onActivate={() => handleActivate("to")}
+          onPickUnit={() => setPickerField("to")}
+          testID="field-to"
+        />
+      </View>
+
+      <View
+        style={[
+          styles.keypad,
+          { width: keypadWidth, paddingBottom: insets.bottom + 24 },
+        ]}
+      >
+        <View style={styles.row}>
+          {digitButton("7")}
+          {digitButton("8")}
+          {digitButton("9")}
+          <CalculatorButton
+            label="⌫"
+            onPress={() => editInput(deleteBackward)}
+            isOperator
+            testID="button-backspace"
+          />
+        </View>
+        <View style={styles.row}>
+          {digitButton("4")}
+          {digitButton("5")}
+          {digitButton("6")}
+          <CalculatorButton
+            label="AC"
+            onPress={() => setInput(createEditorState("0"))}
+            isOperator
+            testID="button-clear"
+          />
+        </View>
+        <View style={styles.row}>
+          {digitButton("1")}
+          {digitButton("2")}
+          {digitButton("3")}
+          <CalculatorButton
+            label="+/-"
+            onPress={handleToggleSign}
+            isOperator
+            testID="button-sign"
+          />
+        </View>
+        <View style={styles.row}>
+          <CalculatorButton
+            label="0"
+            onPress={() => editInput((state) => insertDigit(state, "0"))}
+            isWide
+            testID="button-0"
+          />
+          <CalculatorButton
+            label={numberLocale.decimalSeparator}
+            onPress={() => editInput(insertDecimal)}
+            testID="button-decimal"
+          />
+          <CalculatorButton
+            label="⇅"
+            onPress={handleSwap}
+            isOperator
+            testID="button-swap"
+          />
+        </View>
+      </View>
+
+      <Modal
+        visible={pickerField !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPickerField(null)}
+      >
+        <TouchableWithoutFeedback onPress={() => setPickerField(null)}>
+          <View style={styles.modalOverlay}>
+            <View style={styles.pickerContent}>
+              <FlatList
+                data={category.units}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item }) => (
+                  <Pressable
+                    onPress={() => handlePickUnit(item.id)}
+                    style={styles.pickerItem}
+                    testID={`unit-${item.id}`}
+                  >
+                    <Text style={styles.pickerItemText}>{item.name}</Text>
+                    <Text style={styles.pickerItemSymbol}>{item.symbol}</Text>
+                  </Pressable>
+                )}
+              />
+            </View>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerTitle: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  categoryList: {
+    flexGrow: 0,
+  },
+  categoryListContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  categoryChip: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeCategoryChip: {
+    backgroundColor: CalculatorColors.operatorButton,
+  },
+  categoryText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  fields: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: Spacing["2xl"],
+    gap: Spacing["3xl"],
+  },
+  field: {
+    gap: Spacing.sm,
+  },
+  unitSelector: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: Spacing.xs,
+  },
+  unitSymbol: {
+    color: CalculatorColors.displayText,
+    fontSize: 18,
+    fontWeight: "500",
+  },
+  fieldValue: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 44,
+    fontWeight: "300",
+    textAlign: "right",
+  },
+  activeFieldValue: {
+    opacity: 1,
+    color: CalculatorColors.operatorButton,
+  },
+  unitName: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  keypad: {
+    alignSelf: "center",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: BUTTON_MARGIN,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "center",
+    padding: Spacing["2xl"],
+  },
+  pickerContent: {
+    maxHeight: "70%",
+    backgroundColor: CalculatorColors.numberButton,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xs,
+  },
+  pickerItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    padding: Spacing.md,
+  },
+  pickerItemText: {
+    color: CalculatorColors.displayText,
+    fontSize: 16,
+  },
+  pickerItemSymbol: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+});
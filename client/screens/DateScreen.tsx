@@ -0,0 +1,435 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+
+import { CalculatorColors, BorderRadius, Spacing } from "@/constants/theme";
+import { NumberPad } from "@/components/NumberPad";
+import { calculateExpression } from "@/lib/calculator-engine";
+import {
+  CalendarDate,
+  addDays,
+  calendarDifference,
+  dayOfYear,
+  daysBetween,
+  formatCalendarDate,
+  isValidDate,
+  today,
+} from "@/lib/date-calculation";
+import {
+  EditorState,
+  createEditorState,
+  deleteBackward,
+  insertDigit,
+  insertOperator,
+} from "@/lib/expression-editor";
+import { localizeExpression } from "@/lib/locale-format";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+type DateMode = "between" | "add" | "weekday";
+
+type DateName = "from" | "to";
+type DatePart = "day" | "month" | "year";
+type FieldId = `${DateName}-${DatePart}` | "days";
+
+const DATE_MODES: { id: DateMode; label: string }[] = [
+  { id: "between", label: "Between dates" },
+  { id: "add", label: "Add or subtract" },
+  { id: "weekday", label: "Weekday" },
+];
+
+const DATE_PARTS: { part: DatePart; label: string; maxLength: number }[] = [
+  { part: "day", label: "Day", maxLength: 2 },
+  { part: "month", label: "Month", maxLength: 2 },
+  { part: "year", label: "Year", maxLength: 4 },
+];
+
+// Fields in the order the enter key walks through them
+const MODE_FIELDS: Record<DateMode, FieldId[]> = {
+  between: [
+    "from-day",
+    "from-month",
+    "from-year",
+    "to-day",
+    "to-month",
+    "to-year",
+  ],
+  add: ["from-day", "from-month", "from-year", "days"],
+  weekday: ["from-day", "from-month", "from-year"],
+};
+
+function initialFields(): Record<FieldId, string> {
+  const { year, month, day } = today();
+  const date = { day: String(day), month: String(month), year: String(year) };
+  return {
+    "from-day": date.day,
+    "from-month": date.month,
+    "from-year": date.year,
+    "to-day": date.day,
+    "to-month": date.month,
+    "to-year": date.year,
+    days: "",
+  };
+}
+
+export default function DateScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const numberLocale = useNumberLocale();
+  const [mode, setMode] = useState<DateMode>("between");
+  const [fields, setFields] = useState(initialFields);
+  const [activeField, setActiveField] = useState<FieldId>("from-day");
+  const [isSubtract, setIsSubtract] = useState(false);
+  // The first digit typed into a field replaces what it showed
+  const [replaceOnInput, setReplaceOnInput] = useState(true);
+
+  const localize = (value: number) =>
+    localizeExpression(String(value), numberLocale).text;
+
+  const readDate = (name: DateName): CalendarDate => ({
+    year: Number(fields[`${name}-year`]),
+    month: Number(fields[`${name}-month`]),
+    day: Number(fields[`${name}-day`]),
+  });
+
+  const handleSelectMode = useCallback((next: DateMode) => {
+    setMode(next);
+    setActiveField("from-day");
+    setReplaceOnInput(true);
+  }, []);
+
+  const handleActivate = useCallback((field: FieldId) => {
+    setActiveField(field);
+    setReplaceOnInput(true);
+  }, []);
+
+  const editField = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      const current = replaceOnInput ? "" : fields[activeField];
+      setFields({
+        ...fields,
+        [activeField]: edit(createEditorState(current)).text,
+      });
+      setReplaceOnInput(false);
+    },
+    [fields, activeField, replaceOnInput],
+  );
+
+  const handleDigit = useCallback(
+    (digit: string) => {
+      const part = DATE_PARTS.find((item) =>
+        activeField.endsWith(`-${item.part}`),
+      );
+      const current = replaceOnInput ? "" : fields[activeField];
+      // Date parts are plain digits with a fixed width
+      if (part && current.length >= part.maxLength) return;
+      editField((state) => insertDigit(state, digit));
+    },
+    [activeField, fields, replaceOnInput, editField],
+  );
+
+  const handleEnter = useCallback(() => {
+    const order = MODE_FIELDS[mode];
+    handleActivate(order[(order.indexOf(activeField) + 1) % order.length]);
+  }, [mode, activeField, handleActivate]);
+
+  // ============================================
+  // RESULT - Recomputed live from whatever is entered
+  // ============================================
+  const renderResult = () => {
+    const from = readDate("from");
+    if (!isValidDate(from)) {
+      return <Text style={styles.hintText}>Enter a valid date</Text>;
+    }
+
+    if (mode === "between") {
+      const to = readDate("to");
+      if (!isValidDate(to)) {
+        return <Text style={styles.hintText}>Enter a valid date</Text>;
+      }
+      const days = Math.abs(daysBetween(from, to));
+      const { years, months, days: remainder } = calendarDifference(from, to);
+      return (
+        <>
+          <Text style={styles.resultText} testID="date-result">
+            {localize(days)} {days === 1 ? "day" : "days"}
+          </Text>
+          <Text style={styles.detailText}>
+            {localize(years)} y, {localize(months)} m, {localize(remainder)} d
+          </Text>
+          <Text style={styles.detailText}>
+            {localize(Math.floor(days / 7))} weeks, {localize(days % 7)} days
+          </Text>
+        </>
+      );
+    }
+
+    if (mode === "add") {
+      const value =
+        fields.days === "" ? null : calculateExpression(fields.days);
+      if (value === null || !value.isInteger()) {
+        return (
+          <Text style={styles.hintText}>Enter a whole number of days</Text>
+        );
+      }
+      const days = value.toNumber() * (isSubtract ? -1 : 1);
+      const result = addDays(from, days);
+      if (!isValidDate(result)) {
+        return <Text style={styles.hintText}>Out of range</Text>;
+      }
+      return (
+        <Text style={styles.resultText} testID="date-result">
+          {formatCalendarDate(result)}
+        </Text>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.resultText} testID="date-result">
+          {formatCalendarDate(from, { weekday: "long" })}
+        </Text>
+        <Text style={styles.detailText}>
+          {formatCalendarDate(from)} · day {localize(dayOfYear(from))}
+        </Text>
+      </>
+    );
+  };
+
+  const renderField = (field: FieldId, label: string, isInvalid: boolean) => (
+    <View key={field} style={styles.fieldColumn}>
+      <Pressable
+        onPress={() => handleActivate(field)}
+        style={[
+          styles.field,
+          field === activeField && styles.activeField,
+          isInvalid && styles.invalidField,
+        ]}
+        testID={`date-field-${field}`}
+      >
+        <Text style={styles.fieldText} numberOfLines={1} adjustsFontSizeToFit>
+          {field === "days"
+            ? localizeExpression(fields[field], numberLocale).text
+            : fields[field]}
+        </Text>
+      </Pressable>
+      <Text style={styles.fieldLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderDate = (name: DateName, title: string) => {
+    const isInvalid = !isValidDate(readDate(name));
+    return (
+      <View style={styles.group}>
+        <Text style={styles.groupTitle}>{title}</Text>
+        <View style={styles.fieldRow}>
+          {DATE_PARTS.map(({ part, label }) =>
+            renderField(`${name}-${part}`, label, isInvalid),
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Dates</Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.modeList}
+        contentContainerStyle={styles.modeListContent}
+      >
+        {DATE_MODES.map((item) => (
+          <Pressable
+            key={item.id}
+            onPress={() => handleSelectMode(item.id)}
+            style={[styles.chip, item.id === mode && styles.activeChip]}
+            testID={`date-mode-${item.id}`}
+          >
+            <Text style={styles.chipText}>{item.label}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.content}>
+        {renderDate("from", mode === "between" ? "From" : "Date")}
+        {mode === "between" ? renderDate("to", "To") : null}
+        {mode === "add" ? (
+          <View style={styles.group}>
+            <View style={styles.fieldRow}>
+              <Pressable
+                onPress={() => setIsSubtract(!isSubtract)}
+                style={[styles.chip, styles.signChip]}
+                testID="button-date-sign"
+              >
+                <Text style={styles.chipText}>
+                  {isSubtract ? "− Subtract" : "+ Add"}
+                </Text>
+              </Pressable>
+              {renderField("days", "Days", false)}
+            </View>
+          </View>
+        ) : null}
+        <View style={styles.result}>{renderResult()}</View>
+      </View>
+
+      <View style={[styles.keypad, { paddingBottom: insets.bottom + 24 }]}>
+        <NumberPad
+          decimalLabel={numberLocale.decimalSeparator}
+          enterLabel="→"
+          onDigit={handleDigit}
+          // Dates and day counts are whole numbers
+          onDecimal={() => undefined}
+          // Only the day count takes arithmetic, e.g. 6×7
+          onOperator={(operator) => {
+            if (activeField === "days") {
+              editField((state) => insertOperator(state, operator));
+            }
+          }}
+          onBackspace={() => editField(deleteBackward)}
+          onClear={() => editField(() => createEditorState(""))}
+          onEnter={handleEnter}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerTitle: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  modeList: {
+    flexGrow: 0,
+  },
+  modeListContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeChip: {
+    backgroundColor: CalculatorColors.operatorButton,
+  },
+  signChip: {
+    alignSelf: "flex-start",
+    height: 48,
+    justifyContent: "center",
+  },
+  chipText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  group: {
+    gap: Spacing.xs,
+  },
+  groupTitle: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 14,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  fieldColumn: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  field: {
+    height: 48,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeField: {
+    borderColor: CalculatorColors.operatorButton,
+  },
+  invalidField: {
+    borderColor: "#FF453A",
+  },
+  fieldText: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    textAlign: "right",
+  },
+  fieldLabel: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 12,
+    textAlign: "center",
+  },
+  result: {
+    alignItems: "flex-end",
+    gap: Spacing.xs,
+  },
+  resultText: {
+    color: CalculatorColors.displayText,
+    fontSize: 28,
+    fontWeight: "300",
+    textAlign: "right",
+  },
+  detailText: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+  hintText: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+  keypad: {
+    paddingHorizontal: 12,
+  },
+});
@@ -0,0 +1,512 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+
+import { CalculatorColors, BorderRadius, Spacing } from "@/constants/theme";
+import { NumberPad } from "@/components/NumberPad";
+import { calculateExpression } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import {
+  EditorState,
+  createEditorState,
+  deleteBackward,
+  insertDecimal,
+  insertDigit,
+  insertOperator,
+} from "@/lib/expression-editor";
+import {
+  amortize,
+  applyDiscountAndTax,
+  compoundInterest,
+  splitTip,
+} from "@/lib/finance";
+import { localizeExpression } from "@/lib/locale-format";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+type FinanceMode = "loan" | "compound" | "tip" | "discount";
+
+interface FinanceField {
+  label: string;
+  unit: string;
+}
+
+interface FinanceModeInfo {
+  id: FinanceMode;
+  label: string;
+  fields: FinanceField[];
+}
+
+const FINANCE_MODES: FinanceModeInfo[] = [
+  {
+    id: "loan",
+    label: "Loan",
+    fields: [
+      { label: "Amount", unit: "" },
+      { label: "Interest", unit: "% / year" },
+      { label: "Term", unit: "months" },
+    ],
+  },
+  {
+    id: "compound",
+    label: "Compound interest",
+    fields: [
+      { label: "Principal", unit: "" },
+      { label: "Interest", unit: "% / year" },
+      { label: "Duration", unit: "years" },
+    ],
+  },
+  {
+    id: "tip",
+    label: "Tip",
+    fields: [
+      { label: "Bill", unit: "" },
+      { label: "Tip", unit: "%" },
+      { label: "People", unit: "" },
+    ],
+  },
+  {
+    id: "discount",
+    label: "Discount & tax",
+    fields: [
+      { label: "Price", unit: "" },
+      { label: "Discount", unit: "%" },
+      { label: "Tax", unit: "%" },
+    ],
+  },
+];
+
+const COMPOUNDING: { periods: number; label: string }[] = [
+  { periods: 1, label: "Yearly" },
+  { periods: 4, label: "Quarterly" },
+  { periods: 12, label: "Monthly" },
+  { periods: 365, label: "Daily" },
+];
+
+export default function FinanceScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const numberLocale = useNumberLocale();
+  const [mode, setMode] = useState<FinanceMode>("loan");
+  const [fields, setFields] = useState<string[]>(["", "", ""]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [periodsPerYear, setPeriodsPerYear] = useState(12);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+
+  const info = FINANCE_MODES.find((item) => item.id === mode)!;
+
+  // Amounts always show cents, 12.5 reads 12.50
+  const formatMoney = (value: Decimal) => {
+    const [whole, fraction = ""] = value
+      .toDecimalPlaces(2)
+      .toString()
+      .split(".");
+    return localizeExpression(
+      `${whole}.${fraction.padEnd(2, "0")}`,
+      numberLocale,
+    ).text;
+  };
+
+  const handleSelectMode = useCallback((next: FinanceMode) => {
+    setMode(next);
+    setFields(["", "", ""]);
+    setActiveIndex(0);
+    setIsScheduleOpen(false);
+  }, []);
+
+  const editField = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      setFields(
+        fields.map((text, index) =>
+          index === activeIndex ? edit(createEditorState(text)).text : text,
+        ),
+      );
+    },
+    [fields, activeIndex],
+  );
+
+  const handleEnter = useCallback(() => {
+    setActiveIndex((activeIndex + 1) % fields.length);
+  }, [activeIndex, fields]);
+
+  // ============================================
+  // RESULTS - Recomputed live once every field holds a value
+  // ============================================
+  const renderRows = (rows: [string, string][]) =>
+    rows.map(([label, value]) => (
+      <View key={label} style={styles.resultRow}>
+        <Text style={styles.resultLabel}>{label}</Text>
+        <Text style={styles.resultValue} testID="finance-result">
+          {value}
+        </Text>
+      </View>
+    ));
+
+  const renderResults = () => {
+    const values = fields.map((text) =>
+      text === "" ? null : calculateExpression(text),
+    );
+    if (values.some((value) => value === null)) {
+      return (
+        <Text style={styles.hintText}>
+          {fields.some((text) => text === "")
+            ? "Fill in every field"
+            : "Check the highlighted entries"}
+        </Text>
+      );
+    }
+    const [first, second, third] = values as Decimal[];
+    const invalid = (
+      <Text style={styles.hintText}>Check the highlighted entries</Text>
+    );
+
+    switch (mode) {
+      case "loan": {
+        const loan = amortize(first, second, third.toNumber());
+        if (!loan) return invalid;
+        return (
+          <>
+            {renderRows([
+              ["Monthly payment", formatMoney(loan.payment)],
+              ["Total interest", formatMoney(loan.totalInterest)],
+              ["Total paid", formatMoney(loan.totalPaid)],
+            ])}
+            <Pressable
+              onPress={() => setIsScheduleOpen(!isScheduleOpen)}
+              style={styles.scheduleToggle}
+              testID="button-schedule"
+            >
+              <Text style={styles.scheduleToggleText}>
+                {isScheduleOpen ? "Hide schedule" : "Show schedule"}
+              </Text>
+              <Feather
+                name={isScheduleOpen ? "chevron-up" : "chevron-down"}
+                size={16}
+                color={CalculatorColors.operatorButton}
+              />
+            </Pressable>
+            {isScheduleOpen ? (
+              <View testID="finance-schedule">
+                <View style={styles.scheduleRow}>
+                  {["#", "Payment", "Interest", "Principal", "Balance"].map(
+                    (heading) => (
+                      <Text key={heading} style={styles.scheduleHeading}>
+                        {heading}
+                      </Text>
+                    ),
+                  )}
+                </View>
+                {loan.schedule.map((row) => (
+                  <View key={row.month} style={styles.scheduleRow}>
+                    <Text style={styles.scheduleCell}>{row.month}</Text>
+                    {[
+                      row.payment,
+                      row.interest,
+                      row.principal,
+                      row.balance,
+                    ].map((value, index) => (
+                      <Text key={index} style={styles.scheduleCell}>
+                        {formatMoney(value)}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            ) : null}
+          </>
+        );
+      }
+
+      case "compound": {
+        if (third.isNegative()) return invalid;
+        const result = compoundInterest(first, second, third, periodsPerYear);
+        if (!result) return invalid;
+        return renderRows([
+          ["Final amount", formatMoney(result.amount)],
+          ["Interest earned", formatMoney(result.interest)],
+        ]);
+      }
+
+      case "tip": {
+        if (!third.isInteger() || third.compare(Decimal.ONE) < 0) {
+          return invalid;
+        }
+        const result = splitTip(first, second, third.toNumber());
+        return renderRows([
+          ["Tip", formatMoney(result.tip)],
+          ["Total", formatMoney(result.total)],
+          ["Per person", formatMoney(result.perPerson)],
+        ]);
+      }
+
+      case "discount": {
+        const result = applyDiscountAndTax(first, second, third);
+        return renderRows([
+          ["You save", formatMoney(result.saving)],
+          ["After discount", formatMoney(result.discounted)],
+          ["Tax", formatMoney(result.tax)],
+          ["Total", formatMoney(result.total)],
+        ]);
+      }
+    }
+  };
+
+  const renderField = (field: FinanceField, index: number) => {
+    const text = fields[index];
+    const isInvalid = text !== "" && calculateExpression(text) === null;
+    return (
+      <View key={field.label} style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>{field.label}</Text>
+        <Pressable
+          onPress={() => setActiveIndex(index)}
+          style={[
+            styles.field,
+            index === activeIndex && styles.activeField,
+            isInvalid && styles.invalidField,
+          ]}
+          testID={`finance-field-${index}`}
+        >
+          <Text style={styles.fieldText} numberOfLines={1} adjustsFontSizeToFit>
+            {localizeExpression(text, numberLocale).text}
+          </Text>
+        </Pressable>
+        <Text style={styles.fieldUnit}>{field.unit}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Finance</Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.modeList}
+        contentContainerStyle={styles.modeListContent}
+      >
+        {FINANCE_MODES.map((item) => (
+          <Pressable
+            key={item.id}
+            onPress={() => handleSelectMode(item.id)}
+            style={[styles.chip, item.id === mode && styles.activeChip]}
+            testID={`finance-mode-${item.id}`}
+          >
+            <Text style={styles.chipText}>{item.label}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+      >
+        {info.fields.map(renderField)}
+        {mode === "compound" ? (
+          <View style={styles.compoundingRow}>
+            {COMPOUNDING.map((item) => (
+              <Pressable
+                key={item.periods}
+                onPress={() => setPeriodsPerYear(item.periods)}
+                style={[
+                  styles.smallChip,
+                  item.periods === periodsPerYear && styles.activeChip,
+                ]}
+                testID={`finance-compounding-${item.periods}`}
+              >
+                <Text style={styles.chipText}>{item.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
+        <View style={styles.results}>{renderResults()}</View>
+      </ScrollView>
+
+      <View style={[styles.keypad, { paddingBottom: insets.bottom + 24 }]}>
+        <NumberPad
+          decimalLabel={numberLocale.decimalSeparator}
+          enterLabel="→"
+          onDigit={(digit) => editField((state) => insertDigit(state, digit))}
+          onDecimal={() => editField(insertDecimal)}
+          onOperator={(operator) =>
+            editField((state) => insertOperator(state, operator))
+          }
+          onBackspace={() => editField(deleteBackward)}
+          onClear={() => editField(() => createEditorState(""))}
+          onEnter={handleEnter}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerTitle: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  modeList: {
+    flexGrow: 0,
+  },
+  modeListContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  smallChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeChip: {
+    backgroundColor: CalculatorColors.operatorButton,
+  },
+  chipText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  fieldLabel: {
+    width: 88,
+    color: CalculatorColors.displayText,
+    fontSize: 15,
+  },
+  field: {
+    flex: 1,
+    height: 44,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeField: {
+    borderColor: CalculatorColors.operatorButton,
+  },
+  invalidField: {
+    borderColor: "#FF453A",
+  },
+  fieldText: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    textAlign: "right",
+  },
+  fieldUnit: {
+    width: 64,
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 13,
+  },
+  compoundingRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  results: {
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  resultRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  resultLabel: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+  resultValue: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "300",
+  },
+  scheduleToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+  },
+  scheduleToggleText: {
+    color: CalculatorColors.operatorButton,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  scheduleRow: {
+    flexDirection: "row",
+    paddingVertical: 2,
+  },
+  scheduleHeading: {
+    flex: 1,
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 12,
+    textAlign: "right",
+  },
+  scheduleCell: {
+    flex: 1,
+    color: CalculatorColors.displayText,
+    fontSize: 12,
+    textAlign: "right",
+  },
+  hintText: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+  keypad: {
+    paddingHorizontal: 12,
+  },
+});
@@ -0,0 +1,611 @@
+import React, { useState, useCallback, useMemo } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Pressable,
+  LayoutChangeEvent,
+} from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Svg, { Circle, G, Line, Path, Text as SvgText } from "react-native-svg";
+
+import {
+  CalculatorColors,
+  GraphColors,
+  BorderRadius,
+  Spacing,
+} from "@/constants/theme";
+import { AngleMode, ExpressionError } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import {
+  GraphPoint,
+  PlotFunction,
+  Viewport,
+  compileFunction,
+  findIntersections,
+  findRoots,
+  niceTicks,
+  sampleCurve,
+} from "@/lib/graphing";
+import { delocalizeExpression, localizeExpression } from "@/lib/locale-format";
+import { formatNumber } from "@/lib/number-format";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+const MAX_CURVES = 3;
+
+// Graph units across the plot when the screen opens
+const DEFAULT_X_RANGE = 20;
+
+// Zoom limits in graph units per pixel, well inside double precision
+const MIN_SCALE = 1e-9;
+const MAX_SCALE = 1e9;
+
+// Taps this close to a root or intersection snap onto it
+const SNAP_DISTANCE = 16;
+
+// Sample every other pixel
+const PIXELS_PER_SAMPLE = 2;
+
+interface CurveInput {
+  id: number;
+  text: string;
+}
+
+interface View2D {
+  // Graph coordinates at the middle of the plot
+  centerX: number;
+  centerY: number;
+  // Graph units per pixel, the same on both axes
+  scale: number;
+}
+
+interface Marker extends GraphPoint {
+  key: string;
+}
+
+function formatCoordinate(value: number): string {
+  if (!Number.isFinite(value)) return "—";
+  return formatNumber(Decimal.from(Number(value.toPrecision(8))), {
+    mode: "decimal",
+    maxDigits: 8,
+  });
+}
+
+export default function GraphScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const numberLocale = useNumberLocale();
+  const [curves, setCurves] = useState<CurveInput[]>([{ id: 1, text: "" }]);
+  const [angleMode, setAngleMode] = useState<AngleMode>("rad");
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<View2D | null>(null);
+  const [traceX, setTraceX] = useState<number | null>(null);
+
+  const localize = (text: string) =>
+    localizeExpression(text, numberLocale).text;
+
+  // Parse every entry; blank ones are skipped, broken ones flagged
+  const compiled = useMemo(
+    () =>
+      curves.map((curve) => {
+        const input = delocalizeExpression(curve.text, numberLocale).trim();
+        if (input === "") return { plot: null, error: false };
+        try {
+          return { plot: compileFunction(input, angleMode), error: false };
+        } catch (error) {
+          if (error instanceof ExpressionError) {
+            return { plot: null, error: true };
+          }
+          throw error;
+        }
+      }),
+    [curves, angleMode, numberLocale],
+  );
+
+  const viewport = useMemo<Viewport | null>(
+    () =>
+      view && size.width > 0
+        ? {
+            xMin: view.centerX - (size.width / 2) * view.scale,
+            xMax: view.centerX + (size.width / 2) * view.scale,
+            yMin: view.centerY - (size.height / 2) * view.scale,
+            yMax: view.centerY + (size.height / 2) * view.scale,
+          }
+        : null,
+    [view, size],
+  );
+
+  const toScreenX = (x: number) =>
+    viewport && view ? (x - viewport.xMin) / view.scale : 0;
+  const toScreenY = (y: number) =>
+    viewport && view ? (viewport.yMax - y) / view.scale : 0;
+
+  const samples = Math.max(1, Math.round(size.width / PIXELS_PER_SAMPLE));
+
+  // ============================================
+  // ROOTS AND INTERSECTIONS - Only those inside the visible range
+  // ============================================
+  const markers = useMemo(() => {
+    if (!viewport) return [];
+    const plots = compiled
+      .map((entry) => entry.plot)
+      .filter((plot): plot is PlotFunction => plot !== null);
+    const found: Marker[] = [];
+
+    plots.forEach((plot, index) => {
+      findRoots(plot, viewport.xMin, viewport.xMax, samples).forEach((x) =>
+        found.push({ key: `root-${index}-${x}`, x, y: 0 }),
+      );
+      plots.slice(index + 1).forEach((other, offset) => {
+        findIntersections(
+          plot,
+          other,
+          viewport.xMin,
+          viewport.xMax,
+          samples,
+        ).forEach((point) =>
+          found.push({ key: `cross-${index}-${offset}-${point.x}`, ...point }),
+        );
+      });
+    });
+
+    return found.filter(
+      (point) => point.y >= viewport.yMin && point.y <= viewport.yMax,
+    );
+  }, [compiled, viewport, samples]);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+    // Start centred on the origin
+    setView(
+      (current) =>
+        current ?? { centerX: 0, centerY: 0, scale: DEFAULT_X_RANGE / width },
+    );
+  }, []);
+
+  const handleResetView = useCallback(() => {
+    if (size.width > 0) {
+      setView({ centerX: 0, centerY: 0, scale: DEFAULT_X_RANGE / size.width });
+    }
+    setTraceX(null);
+  }, [size]);
+
+  const handleTrace = useCallback(
+    (screenX: number, screenY: number) => {
+      if (!viewport || !view) return;
+      const marker = markers.find(
+        (point) =>
+          Math.hypot(
+            (point.x - viewport.xMin) / view.scale - screenX,
+            (viewport.yMax - point.y) / view.scale - screenY,
+          ) <= SNAP_DISTANCE,
+      );
+      setTraceX(marker ? marker.x : viewport.xMin + screenX * view.scale);
+    },
+    [viewport, view, markers],
+  );
+
+  // ============================================
+  // GESTURES - Drag to pan, pinch to zoom, tap to trace
+  // ============================================
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .onChange((event) => {
+      setView(
+        (current) =>
+          current && {
+            ...current,
+            centerX: current.centerX - event.changeX * current.scale,
+            centerY: current.centerY + event.changeY * current.scale,
+          },
+      );
+    });
+
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onChange((event) => {
+      setView((current) => {
+        if (!current) return current;
+        // Keep the graph point under the fingers in place
+        const offsetX = event.focalX - size.width / 2;
+        const offsetY = size.height / 2 - event.focalY;
+        const focusX = current.centerX + offsetX * current.scale;
+        const focusY = current.centerY + offsetY * current.scale;
+        const scale = Math.min(
+          Math.max(current.scale / event.scaleChange, MIN_SCALE),
+          MAX_SCALE,
+        );
+        return {
+          centerX: focusX - offsetX * scale,
+          centerY: focusY - offsetY * scale,
+          scale,
+        };
+      });
+    });
+
+  const tap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((event) => handleTrace(event.x, event.y));
+
+  const gesture = Gesture.Race(Gesture.Simultaneous(pan, pinch), tap);
+
+  const updateCurve = (id: number, text: string) => {
+    setCurves(curves.map((curve) => (curve.id === id ? { id, text } : curve)));
+  };
+
+  const addCurve = () => {
+    const id = Math.max(...curves.map((curve) => curve.id)) + 1;
+    setCurves([...curves, { id, text: "" }]);
+  };
+
+  const removeCurve = (id: number) => {
+    setCurves(curves.filter((curve) => curve.id !== id));
+  };
+
+  const renderPlot = () => {
+    if (!viewport || !view) return null;
+
+    const xTicks = niceTicks(viewport.xMin, viewport.xMax, 6);
+    const yTicks = niceTicks(viewport.yMin, viewport.yMax, 8);
+    // Axes stick to the edge when the origin is off screen
+    const axisX = Math.min(Math.max(toScreenX(0), 0), size.width - 1);
+    const axisY = Math.min(Math.max(toScreenY(0), 0), size.height - 1);
+    // Keep path coordinates finite for far off-screen points
+    const clampY = (y: number) =>
+      Math.min(Math.max(toScreenY(y), -size.height), size.height * 2);
+
+    return (
+      <Svg width={size.width} height={size.height}>
+        {xTicks.map((tick) => (
+          <Line
+            key={`grid-x-${tick}`}
+            x1={toScreenX(tick)}
+            y1={0}
+            x2={toScreenX(tick)}
+            y2={size.height}
+            stroke={GraphColors.grid}
+            strokeWidth={1}
+          />
+        ))}
+        {yTicks.map((tick) => (
+          <Line
+            key={`grid-y-${tick}`}
+            x1={0}
+            y1={toScreenY(tick)}
+            x2={size.width}
+            y2={toScreenY(tick)}
+            stroke={GraphColors.grid}
+            strokeWidth={1}
+          />
+        ))}
+
+        <Line
+          x1={0}
+          y1={axisY}
+          x2={size.width}
+          y2={axisY}
+          stroke={GraphColors.axis}
+          strokeWidth={1.5}
+        />
+        <Line
+          x1={axisX}
+          y1={0}
+          x2={axisX}
+          y2={size.height}
+          stroke={GraphColors.axis}
+          strokeWidth={1.5}
+        />
+
+        {xTicks
+          .filter((tick) => tick !== 0)
+          .map((tick) => (
+            <SvgText
+              key={`label-x-${tick}`}
+              x={toScreenX(tick)}
+              y={Math.min(axisY + 14, size.height - 4)}
+              fill={GraphColors.label}
+              fontSize={10}
+              textAnchor="middle"
+            >
+              {localize(String(tick))}
+            </SvgText>
+          ))}
+        {yTicks
+          .filter((tick) => tick !== 0)
+          .map((tick) => (
+            <SvgText
+              key={`label-y-${tick}`}
+              x={Math.min(axisX + 4, size.width - 30)}
+              y={toScreenY(tick) + 3}
+              fill={GraphColors.label}
+              fontSize={10}
+            >
+              {localize(String(tick))}
+            </SvgText>
+          ))}
+
+        {compiled.map((entry, index) =>
+          entry.plot ? (
+            <G key={curves[index].id}>
+              {sampleCurve(entry.plot, viewport, samples).map(
+                (segment, segmentIndex) => (
+                  <Path
+                    key={segmentIndex}
+                    d={segment
+                      .map(
+                        (point, pointIndex) =>
+                          `${pointIndex === 0 ? "M" : "L"}${toScreenX(point.x)},${clampY(point.y)}`,
+                      )
+                      .join(" ")}
+                    stroke={GraphColors.curves[index]}
+                    strokeWidth={2.5}
+                    fill="none"
+                  />
+                ),
+              )}
+            </G>
+          ) : null,
+        )}
+
+        {markers.map((point) => (
+          <Circle
+            key={point.key}
+            cx={toScreenX(point.x)}
+            cy={toScreenY(point.y)}
+            r={4}
+            fill={CalculatorColors.background}
+            stroke={GraphColors.marker}
+            strokeWidth={2}
+          />
+        ))}
+
+        {traceX !== null ? (
+          <G>
+            <Line
+              x1={toScreenX(traceX)}
+              y1={0}
+              x2={toScreenX(traceX)}
+              y2={size.height}
+              stroke={GraphColors.marker}
+              strokeWidth={1}
+              strokeDasharray="4 4"
+            />
+            {compiled.map((entry, index) => {
+              const y = entry.plot?.(traceX);
+              return y !== undefined && Number.isFinite(y) ? (
+                <Circle
+                  key={curves[index].id}
+                  cx={toScreenX(traceX)}
+                  cy={clampY(y)}
+                  r={5}
+                  fill={GraphColors.curves[index]}
+                />
+              ) : null;
+            })}
+          </G>
+        ) : null}
+      </Svg>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Graph</Text>
+        <Pressable
+          onPress={() => setAngleMode(angleMode === "deg" ? "rad" : "deg")}
+          style={styles.chip}
+          testID="button-angle-mode"
+        >
+          <Text style={styles.chipText}>{angleMode.toUpperCase()}</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleResetView}
+          style={styles.headerButton}
+          testID="button-reset-view"
+        >
+          <Feather
+            name="maximize"
+            size={20}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+      </View>
+
+      <GestureDetector gesture={gesture}>
+        <View style={styles.plot} onLayout={handleLayout} testID="graph-plot">
+          {renderPlot()}
+          {traceX !== null ? (
+            <Pressable
+              onPress={() => setTraceX(null)}
+              style={styles.traceReadout}
+              testID="trace-readout"
+            >
+              <Text style={styles.traceText}>
+                x = {localize(formatCoordinate(traceX))}
+              </Text>
+              {compiled.map((entry, index) =>
+                entry.plot ? (
+                  <Text
+                    key={curves[index].id}
+                    style={[
+                      styles.traceText,
+                      { color: GraphColors.curves[index] },
+                    ]}
+                  >
+                    y{index + 1} ={" "}
+                    {localize(formatCoordinate(entry.plot(traceX)))}
+                  </Text>
+                ) : null,
+              )}
+            </Pressable>
+          ) : null}
+        </View>
+      </GestureDetector>
+
+      <View style={[styles.inputs, { paddingBottom: insets.bottom + 16 }]}>
+        {curves.map((curve, index) => (
+          <View key={curve.id} style={styles.inputRow}>
+            <View
+              style={[
+                styles.curveDot,
+                { backgroundColor: GraphColors.curves[index] },
+              ]}
+            />
+            <Text style={styles.inputLabel}>y =</Text>
+            <TextInput
+              value={curve.text}
+              onChangeText={(text) => updateCurve(curve.id, text)}
+              placeholder="e.g. x^2-2"
+              placeholderTextColor={GraphColors.label}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[
+                styles.input,
+                compiled[index].error && styles.invalidInput,
+              ]}
+              testID={`input-function-${index + 1}`}
+            />
+            {curves.length > 1 ? (
+              <Pressable
+                onPress={() => removeCurve(curve.id)}
+                style={styles.headerButton}
+                testID={`button-remove-function-${index + 1}`}
+              >
+                <Feather name="x" size={18} color={GraphColors.label} />
+              </Pressable>
+            ) : null}
+          </View>
+        ))}
+        {curves.length < MAX_CURVES ? (
+          <Pressable
+            onPress={addCurve}
+            style={styles.addButton}
+            testID="button-add-function"
+          >
+            <Feather
+              name="plus"
+              size={18}
+              color={CalculatorColors.operatorButton}
+            />
+            <Text style={styles.addButtonText}>Add function</Text>
+          </Pressable>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  headerButton: {
+    padding: Spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.functionButton,
+  },
+  chipText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  plot: {
+    flex: 1,
+    overflow: "hidden",
+  },
+  traceReadout: {
+    position: "absolute",
+    top: Spacing.sm,
+    left: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    backgroundColor: "rgba(0,0,0,0.6)",
+  },
+  traceText: {
+    color: CalculatorColors.displayText,
+    fontSize: 13,
+  },
+  inputs: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  curveDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  inputLabel: {
+    color: CalculatorColors.displayText,
+    fontSize: 16,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: CalculatorColors.numberButton,
+    color: CalculatorColors.displayText,
+    fontSize: 16,
+  },
+  invalidInput: {
+    borderColor: "#FF453A",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+  },
+  addButtonText: {
+    color: CalculatorColors.operatorButton,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+});
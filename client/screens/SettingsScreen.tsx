@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { BorderRadius, ChatColors, Spacing } from "@/constants/theme";
+import { DuressCodeModal, DuressSettings } from "@/components/DuressCodeModal";
+import {
+  getPairing,
+  getPreferences,
+  savePairing,
+  savePreferences,
+  PairingData,
+  SecurePreferences,
+} from "@/lib/secure-storage";
+import {
+  MAX_SEQUENCE_LENGTH,
+  createUnlockSecret,
+  isValidSequence,
+  matchesUnlockSecret,
+  normalizeSequence,
+} from "@/lib/unlock-secret";
+import { unpairDevice, wipeConversation } from "@/lib/unpair";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const DURESS_DESCRIPTIONS = {
+  decoy: "Opens a decoy chat",
+  wipe: "Erases this chat",
+};
+
+// ============================================
+// SETTINGS - Unlock and duress sequences, and unpairing
+// Reached from the chat only, so it is as hidden as the chat itself
+// ============================================
+export default function SettingsScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const insets = useSafeAreaInsets();
+  const [pairing, setPairing] = useState<PairingData | null>(null);
+  const [preferences, setPreferences] = useState<SecurePreferences | null>(
+    null,
+  );
+  const [sequence, setSequence] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [duressVisible, setDuressVisible] = useState(false);
+
+  useEffect(() => {
+    getPairing().then(setPairing);
+    getPreferences().then(setPreferences);
+  }, []);
+
+  const handleSaveUnlock = async () => {
+    if (!pairing) return;
+
+    if (!isValidSequence(sequence)) {
+      setUnlockError(
+        "Use 4 to 32 digits, or a sum such as 7×7, with no number starting in 0",
+      );
+      return;
+    }
+    if (normalizeSequence(sequence) !== normalizeSequence(confirmation)) {
+      setUnlockError("The two entries don't match");
+      return;
+    }
+
+    setIsSaving(true);
+    if (
+      pairing.duress &&
+      (await matchesUnlockSecret(pairing.duress, sequence))
+    ) {
+      setUnlockError("Must differ from your duress sequence");
+      setIsSaving(false);
+      return;
+    }
+
+    const updated: PairingData = {
+      ...pairing,
+      unlock: await createUnlockSecret(sequence),
+    };
+    await savePairing(updated);
+    setPairing(updated);
+    setSequence("");
+    setConfirmation("");
+    setUnlockError(null);
+    setIsSaving(false);
+    Alert.alert(
+      "Unlock sequence changed",
+      "From now on, enter it on the calculator and press =.",
+    );
+  };
+
+  const handleSaveDuress = async (settings: DuressSettings | null) => {
+    if (!pairing) return;
+
+    // Removing leaves the sequence undefined, which drops it when saved
+    const updated: PairingData = {
+      ...pairing,
+      duress: settings?.sequence
+        ? await createUnlockSecret(settings.sequence)
+        : settings
+          ? pairing.duress
+          : undefined,
+    };
+    await savePairing(updated);
+    setPairing(updated);
+    if (settings) {
+      const chosen: SecurePreferences = {
+        duressAction: settings.action,
+        duressAlertsPartner: settings.alertsPartner,
+      };
+      await savePreferences(chosen);
+      setPreferences(chosen);
+    }
+    setDuressVisible(false);
+  };
+
+  // The calculator reads the pairing again on focus, and finds none
+  const handleUnpair = () => {
+    Alert.alert(
+      "Unpair this device?",
+      "This ends the conversation for both of you and deletes it from this phone. You can pair again with a new code.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unpair",
+          style: "destructive",
+          onPress: async () => {
+            if (await unpairDevice()) {
+              navigation.popToTop();
+              return;
+            }
+            Alert.alert(
+              "Couldn't reach the server",
+              "Unpair this phone anyway? Your contact won't be told.",
+              [
+                { text: "Cancel", style: "cancel" },
+                {
+                  text: "Unpair anyway",
+                  style: "destructive",
+                  onPress: async () => {
+                    await wipeConversation();
+                    navigation.popToTop();
+                  },
+                },
+              ],
+            );
+          },
+        },
+      ],
+    );
+  };
+
+  const sequenceInputProps = {
+    style: styles.input,
+    keyboardType: "numbers-and-punctuation" as const,
+    maxLength: MAX_SEQUENCE_LENGTH,
+    autoCapitalize: "none" as const,
+    autoCorrect: false,
+    secureTextEntry: true,
+    placeholderTextColor: ChatColors.textSecondary,
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+      <View style={[styles.header, { paddingTop: insets.top }]}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="button-back"
+        >
+          <Feather name="arrow-left" size={24} color={ChatColors.textPrimary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Settings</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.sectionTitle}>Unlock sequence</Text>
+        <Text style={styles.description}>
+          What you enter on the calculator before pressing = to open this chat.
+          Any digits work, or a sum such as 7×7 (type 7*7).
+        </Text>
+        <TextInput
+          {...sequenceInputProps}
+          value={sequence}
+          onChangeText={(text) => {
+            setSequence(text);
+            setUnlockError(null);
+          }}
+          placeholder="New sequence"
+          testID="input-unlock-sequence"
+        />
+        <TextInput
+          {...sequenceInputProps}
+          value={confirmation}
+          onChangeText={(text) => {
+            setConfirmation(text);
+            setUnlockError(null);
+          }}
+          placeholder="Repeat it"
+          testID="input-unlock-confirmation"
+        />
+        {unlockError ? <Text style={styles.error}>{unlockError}</Text> : null}
+        <Pressable
+          style={[styles.button, isSaving && styles.buttonDisabled]}
+          onPress={handleSaveUnlock}
+          disabled={isSaving}
+          testID="button-save-unlock"
+        >
+          <Text style={styles.buttonText}>
+            {isSaving ? "Saving…" : "Change unlock sequence"}
+          </Text>
+        </Pressable>
+
+        <Text style={styles.sectionTitle}>Duress code</Text>
+        <Pressable
+          style={styles.row}
+          onPress={() => setDuressVisible(true)}
+          disabled={!pairing || !preferences}
+          testID="button-duress-code"
+        >
+          <Feather name="shield" size={20} color={ChatColors.textPrimary} />
+          <Text style={styles.rowText}>
+            {pairing?.duress && preferences
+              ? DURESS_DESCRIPTIONS[preferences.duressAction]
+              : "Off"}
+          </Text>
+          <Feather
+            name="chevron-right"
+            size={20}
+            color={ChatColors.textSecondary}
+          />
+        </Pressable>
+
+        <Text style={styles.sectionTitle}>Pairing</Text>
+        <Pressable
+          style={styles.row}
+          onPress={handleUnpair}
+          testID="button-unpair"
+        >
+          <Feather name="link-2" size={20} color="#FF453A" />
+          <Text style={[styles.rowText, styles.destructiveText]}>
+            Unpair this device
+          </Text>
+        </Pressable>
+      </ScrollView>
+
+      {pairing && preferences ? (
+        <DuressCodeModal
+          visible={duressVisible}
+          pairing={pairing}
+          preferences={preferences}
+          onSave={handleSaveDuress}
+          onClose={() => setDuressVisible(false)}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ChatColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: ChatColors.headerBackground,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerTitle: {
+    color: ChatColors.textPrimary,
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  headerRight: {
+    width: 40,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    color: ChatColors.textPrimary,
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: Spacing.lg,
+  },
+  description: {
+    color: ChatColors.textSecondary,
+    fontSize: 14,
+  },
+  input: {
+    backgroundColor: ChatColors.inputFieldBackground,
+    color: ChatColors.textPrimary,
+    borderRadius: BorderRadius.xs,
+    height: Spacing.inputHeight,
+    paddingHorizontal: Spacing.md,
+    fontSize: 18,
+  },
+  error: {
+    color: "#FF453A",
+    fontSize: 13,
+  },
+  button: {
+    backgroundColor: ChatColors.sendButton,
+    borderRadius: BorderRadius.xs,
+    height: Spacing.buttonHeight,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: ChatColors.textPrimary,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: ChatColors.headerBackground,
+    borderRadius: BorderRadius.xs,
+    padding: Spacing.lg,
+  },
+  rowText: {
+    flex: 1,
+    color: ChatColors.textPrimary,
+    fontSize: 16,
+  },
+  destructiveText: {
+    color: "#FF453A",
+  },
+});
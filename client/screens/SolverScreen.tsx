@@ -0,0 +1,394 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+
+import { CalculatorColors, BorderRadius, Spacing } from "@/constants/theme";
+import { NumberPad } from "@/components/NumberPad";
+import { calculateExpression } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import {
+  ComplexRoot,
+  solveLinearSystem,
+  solvePolynomial,
+} from "@/lib/equation-solver";
+import {
+  EditorState,
+  createEditorState,
+  deleteBackward,
+  insertDecimal,
+  insertDigit,
+  insertOperator,
+} from "@/lib/expression-editor";
+import { localizeExpression } from "@/lib/locale-format";
+import { formatNumber } from "@/lib/number-format";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+type SolverMode = "linear2" | "linear3" | "quadratic" | "cubic";
+
+interface SolverModeInfo {
+  id: SolverMode;
+  label: string;
+  // Linear: unknowns per equation; polynomial: degree
+  size: number;
+}
+
+const SOLVER_MODES: SolverModeInfo[] = [
+  { id: "linear2", label: "2 unknowns", size: 2 },
+  { id: "linear3", label: "3 unknowns", size: 3 },
+  { id: "quadratic", label: "Quadratic", size: 2 },
+  { id: "cubic", label: "Cubic", size: 3 },
+];
+
+const UNKNOWNS = ["x", "y", "z"];
+const COEFFICIENT_NAMES = ["a", "b", "c", "d"];
+const POLYNOMIAL_TERMS = ["x³", "x²", "x", ""];
+
+const RESULT_DIGITS = 10;
+
+function isLinear(mode: SolverMode): boolean {
+  return mode === "linear2" || mode === "linear3";
+}
+
+function fieldCount(info: SolverModeInfo): number {
+  return isLinear(info.id) ? info.size * (info.size + 1) : info.size + 1;
+}
+
+export default function SolverScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const numberLocale = useNumberLocale();
+  const [mode, setMode] = useState<SolverMode>("linear2");
+  const [fields, setFields] = useState<string[]>(Array(6).fill(""));
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const info = SOLVER_MODES.find((item) => item.id === mode)!;
+
+  const format = (value: Decimal) =>
+    localizeExpression(
+      formatNumber(value, { mode: "decimal", maxDigits: RESULT_DIGITS }),
+      numberLocale,
+    ).text;
+
+  const formatRoot = (root: ComplexRoot) => {
+    if (root.imaginary.isZero()) return format(root.real);
+    const sign = root.imaginary.isNegative() ? "−" : "+";
+    return `${format(root.real)} ${sign} ${format(root.imaginary.abs())}i`;
+  };
+
+  const handleSelectMode = useCallback((next: SolverModeInfo) => {
+    setMode(next.id);
+    setFields(Array(fieldCount(next)).fill(""));
+    setActiveIndex(0);
+  }, []);
+
+  const editField = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      setFields(
+        fields.map((text, index) =>
+          index === activeIndex ? edit(createEditorState(text)).text : text,
+        ),
+      );
+    },
+    [fields, activeIndex],
+  );
+
+  const handleEnter = useCallback(() => {
+    setActiveIndex((activeIndex + 1) % fields.length);
+  }, [activeIndex, fields]);
+
+  // ============================================
+  // SOLUTION - Recomputed live once every field holds a value
+  // ============================================
+  const renderSolution = () => {
+    const values = fields.map((text) =>
+      text === "" ? null : calculateExpression(text),
+    );
+    if (values.some((value) => value === null)) {
+      return (
+        <Text style={styles.hintText}>
+          {fields.some((text) => text === "")
+            ? "Enter every coefficient"
+            : "Check the highlighted entries"}
+        </Text>
+      );
+    }
+    const numbers = values as Decimal[];
+
+    if (isLinear(mode)) {
+      const columns = info.size + 1;
+      const solution = solveLinearSystem(
+        Array.from({ length: info.size }, (_, row) =>
+          numbers.slice(row * columns, row * columns + info.size),
+        ),
+        Array.from(
+          { length: info.size },
+          (_, row) => numbers[row * columns + info.size],
+        ),
+      );
+      if (solution.kind === "none") {
+        return <Text style={styles.hintText}>No solution</Text>;
+      }
+      if (solution.kind === "infinite") {
+        return <Text style={styles.hintText}>Infinitely many solutions</Text>;
+      }
+      return solution.values.map((value, index) => (
+        <Text key={index} style={styles.solutionText} testID="solver-result">
+          {UNKNOWNS[index]} = {format(value)}
+        </Text>
+      ));
+    }
+
+    const solution = solvePolynomial(numbers);
+    if (solution.kind === "none") {
+      return <Text style={styles.hintText}>No solution</Text>;
+    }
+    if (solution.kind === "infinite") {
+      return <Text style={styles.hintText}>Every x is a solution</Text>;
+    }
+    if (solution.kind === "out_of_range") {
+      return <Text style={styles.hintText}>Coefficients are out of range</Text>;
+    }
+    return solution.values.map((root, index) => (
+      <Text key={index} style={styles.solutionText} testID="solver-result">
+        x{solution.values.length > 1 ? index + 1 : ""} = {formatRoot(root)}
+      </Text>
+    ));
+  };
+
+  const renderField = (index: number) => {
+    const text = fields[index];
+    const isInvalid = text !== "" && calculateExpression(text) === null;
+    return (
+      <Pressable
+        key={index}
+        onPress={() => setActiveIndex(index)}
+        style={[
+          styles.field,
+          index === activeIndex && styles.activeField,
+          isInvalid && styles.invalidField,
+        ]}
+        testID={`solver-field-${index}`}
+      >
+        <Text style={styles.fieldText} numberOfLines={1} adjustsFontSizeToFit>
+          {localizeExpression(text, numberLocale).text}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  const renderLinearFields = () => {
+    const columns = info.size + 1;
+    return (
+      <View style={styles.grid}>
+        <View style={styles.gridRow}>
+          {[...UNKNOWNS.slice(0, info.size), "="].map((label) => (
+            <Text key={label} style={styles.columnLabel}>
+              {label}
+            </Text>
+          ))}
+        </View>
+        {Array.from({ length: info.size }, (_, row) => (
+          <View key={row} style={styles.gridRow}>
+            {Array.from({ length: columns }, (_, column) =>
+              renderField(row * columns + column),
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderPolynomialFields = () => {
+    const terms = POLYNOMIAL_TERMS.slice(-(info.size + 1));
+    return (
+      <View style={styles.grid}>
+        <Text style={styles.equationText}>
+          {terms
+            .map((term, index) => `${COEFFICIENT_NAMES[index]}${term}`)
+            .join(" + ")}{" "}
+          = 0
+        </Text>
+        <View style={styles.gridRow}>
+          {terms.map((_, index) => (
+            <Text key={index} style={styles.columnLabel}>
+              {COEFFICIENT_NAMES[index]}
+            </Text>
+          ))}
+        </View>
+        <View style={styles.gridRow}>
+          {terms.map((_, index) => renderField(index))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Solve</Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.modeList}
+        contentContainerStyle={styles.modeListContent}
+      >
+        {SOLVER_MODES.map((item) => (
+          <Pressable
+            key={item.id}
+            onPress={() => handleSelectMode(item)}
+            style={[styles.modeChip, item.id === mode && styles.activeModeChip]}
+            testID={`solver-mode-${item.id}`}
+          >
+            <Text style={styles.modeText}>{item.label}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.content}>
+        {isLinear(mode) ? renderLinearFields() : renderPolynomialFields()}
+        <View style={styles.solution}>{renderSolution()}</View>
+      </View>
+
+      <View style={[styles.keypad, { paddingBottom: insets.bottom + 24 }]}>
+        <NumberPad
+          decimalLabel={numberLocale.decimalSeparator}
+          enterLabel="→"
+          onDigit={(digit) => editField((state) => insertDigit(state, digit))}
+          onDecimal={() => editField(insertDecimal)}
+          onOperator={(operator) =>
+            editField((state) => insertOperator(state, operator))
+          }
+          onBackspace={() => editField(deleteBackward)}
+          onClear={() => editField(() => createEditorState(""))}
+          onEnter={handleEnter}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  backButton: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerTitle: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  modeList: {
+    flexGrow: 0,
+  },
+  modeListContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  modeChip: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeModeChip: {
+    backgroundColor: CalculatorColors.operatorButton,
+  },
+  modeText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.xl,
+  },
+  grid: {
+    gap: Spacing.sm,
+  },
+  gridRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  columnLabel: {
+    flex: 1,
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 14,
+    textAlign: "center",
+  },
+  equationText: {
+    color: CalculatorColors.displayText,
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  field: {
+    flex: 1,
+    height: 48,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeField: {
+    borderColor: CalculatorColors.operatorButton,
+  },
+  invalidField: {
+    borderColor: "#FF453A",
+  },
+  fieldText: {
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    textAlign: "right",
+  },
+  solution: {
+    alignItems: "flex-end",
+    gap: Spacing.xs,
+  },
+  solutionText: {
+    color: CalculatorColors.displayText,
+    fontSize: 24,
+    fontWeight: "300",
+  },
+  hintText: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 16,
+  },
+  keypad: {
+    paddingHorizontal: 12,
+  },
+});
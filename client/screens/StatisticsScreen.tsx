@@ -0,0 +1,373 @@
+import React, { useState, useCallback, useRef } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+
+import { CalculatorColors, BorderRadius, Spacing } from "@/constants/theme";
+import { NumberPad } from "@/components/NumberPad";
+import { calculateExpression } from "@/lib/calculator-engine";
+import { Decimal } from "@/lib/decimal";
+import {
+  EditorState,
+  createEditorState,
+  deleteBackward,
+  insertDecimal,
+  insertDigit,
+  insertOperator,
+} from "@/lib/expression-editor";
+import { localizeExpression } from "@/lib/locale-format";
+import { formatNumber } from "@/lib/number-format";
+import { linearRegression, summarize } from "@/lib/statistics";
+import { useNumberLocale } from "@/hooks/useNumberLocale";
+
+type Column = "x" | "y";
+
+interface DataRow {
+  x: string;
+  y: string;
+}
+
+const EMPTY_ROW: DataRow = { x: "", y: "" };
+
+const RESULT_DIGITS = 10;
+
+export default function StatisticsScreen() {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const numberLocale = useNumberLocale();
+  const scrollRef = useRef<ScrollView>(null);
+  const [isPaired, setIsPaired] = useState(false);
+  const [rows, setRows] = useState<DataRow[]>([EMPTY_ROW]);
+  const [active, setActive] = useState<{ row: number; column: Column }>({
+    row: 0,
+    column: "x",
+  });
+
+  const format = (value: Decimal | null) =>
+    value === null
+      ? "—"
+      : localizeExpression(
+          formatNumber(value, { mode: "decimal", maxDigits: RESULT_DIGITS }),
+          numberLocale,
+        ).text;
+
+  const editField = useCallback(
+    (edit: (state: EditorState) => EditorState) => {
+      setRows(
+        rows.map((row, index) =>
+          index === active.row
+            ? {
+                ...row,
+                [active.column]: edit(createEditorState(row[active.column]))
+                  .text,
+              }
+            : row,
+        ),
+      );
+    },
+    [rows, active],
+  );
+
+  // Enter moves x → y → next row, adding a row at the end of the list
+  const handleEnter = useCallback(() => {
+    if (isPaired && active.column === "x") {
+      setActive({ row: active.row, column: "y" });
+      return;
+    }
+    const next = active.row + 1;
+    if (next === rows.length) {
+      if (rows[active.row].x === "") return;
+      setRows([...rows, EMPTY_ROW]);
+    }
+    setActive({ row: next, column: "x" });
+  }, [isPaired, active, rows]);
+
+  const handleRemoveRow = useCallback(
+    (index: number) => {
+      const remaining = rows.filter((_, rowIndex) => rowIndex !== index);
+      setRows(remaining.length > 0 ? remaining : [EMPTY_ROW]);
+      setActive({
+        row: Math.min(active.row, Math.max(remaining.length - 1, 0)),
+        column: "x",
+      });
+    },
+    [rows, active],
+  );
+
+  const handleClearAll = useCallback(() => {
+    setRows([EMPTY_ROW]);
+    setActive({ row: 0, column: "x" });
+  }, []);
+
+  // ============================================
+  // RESULTS - Rows that are empty or do not evaluate are left out
+  // ============================================
+  const parsed = rows
+    .map((row) => ({
+      x: row.x === "" ? null : calculateExpression(row.x),
+      y: row.y === "" ? null : calculateExpression(row.y),
+    }))
+    .filter(
+      (row): row is { x: Decimal; y: Decimal | null } =>
+        row.x !== null && (!isPaired || row.y !== null),
+    );
+  const summary = summarize(parsed.map((row) => row.x));
+  const regression = isPaired
+    ? linearRegression(
+        parsed.map((row) => row.x),
+        parsed.map((row) => row.y as Decimal),
+      )
+    : null;
+
+  const results: [string, string][] = summary
+    ? [
+        ["n", String(summary.count)],
+        ["Σx", format(summary.sum)],
+        ["x̄", format(summary.mean)],
+        ["Median", format(summary.median)],
+        ["σ", format(summary.populationStandardDeviation)],
+        ["s", format(summary.sampleStandardDeviation)],
+        ["σ²", format(summary.populationVariance)],
+        ["s²", format(summary.sampleVariance)],
+        ["Min", format(summary.min)],
+        ["Max", format(summary.max)],
+      ]
+    : [];
+  if (isPaired && regression) {
+    results.push(
+      ["a", format(regression.intercept)],
+      ["b", format(regression.slope)],
+      ["r", format(regression.correlation)],
+    );
+  }
+
+  const renderCell = (index: number, column: Column) => {
+    const text = rows[index][column];
+    const isInvalid = text !== "" && calculateExpression(text) === null;
+    const isActive = active.row === index && active.column === column;
+    return (
+      <Pressable
+        onPress={() => setActive({ row: index, column })}
+        style={[
+          styles.cell,
+          isActive && styles.activeCell,
+          isInvalid && styles.invalidCell,
+        ]}
+        testID={`stats-${column}-${index}`}
+      >
+        <Text style={styles.cellText} numberOfLines={1} adjustsFontSizeToFit>
+          {localizeExpression(text, numberLocale).text}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          testID="button-back"
+        >
+          <Feather
+            name="arrow-left"
+            size={24}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+        <Text style={styles.headerTitle}>Statistics</Text>
+        <Pressable
+          onPress={() => {
+            setIsPaired(!isPaired);
+            setActive({ row: active.row, column: "x" });
+          }}
+          style={[styles.chip, isPaired && styles.activeChip]}
+          testID="button-paired"
+        >
+          <Text style={styles.chipText}>x, y</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleClearAll}
+          style={styles.headerButton}
+          testID="button-clear-data"
+        >
+          <Feather
+            name="trash-2"
+            size={20}
+            color={CalculatorColors.displayText}
+          />
+        </Pressable>
+      </View>
+
+      <ScrollView
+        ref={scrollRef}
+        // Keep the newest row in view as data is entered
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd()}
+        style={styles.data}
+        contentContainerStyle={styles.dataContent}
+      >
+        {rows.map((_, index) => (
+          <View key={index} style={styles.dataRow}>
+            <Text style={styles.rowNumber}>{index + 1}</Text>
+            {renderCell(index, "x")}
+            {isPaired ? renderCell(index, "y") : null}
+            <Pressable
+              onPress={() => handleRemoveRow(index)}
+              style={styles.headerButton}
+              testID={`button-remove-row-${index}`}
+            >
+              <Feather
+                name="x"
+                size={16}
+                color={CalculatorColors.displayText}
+              />
+            </Pressable>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.results} testID="stats-results">
+        {results.map(([label, value]) => (
+          <View key={label} style={styles.resultItem}>
+            <Text style={styles.resultLabel}>{label}</Text>
+            <Text style={styles.resultValue} numberOfLines={1}>
+              {value}
+            </Text>
+          </View>
+        ))}
+        {isPaired && regression ? (
+          <Text style={styles.regressionText}>y = a + bx</Text>
+        ) : null}
+      </View>
+
+      <View style={[styles.keypad, { paddingBottom: insets.bottom + 24 }]}>
+        <NumberPad
+          decimalLabel={numberLocale.decimalSeparator}
+          enterLabel="↵"
+          onDigit={(digit) => editField((state) => insertDigit(state, digit))}
+          onDecimal={() => editField(insertDecimal)}
+          onOperator={(operator) =>
+            editField((state) => insertOperator(state, operator))
+          }
+          onBackspace={() => editField(deleteBackward)}
+          onClear={() => editField(() => createEditorState(""))}
+          onEnter={handleEnter}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CalculatorColors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  headerButton: {
+    padding: Spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+    color: CalculatorColors.displayText,
+    fontSize: 20,
+    fontWeight: "500",
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: CalculatorColors.functionButton,
+  },
+  activeChip: {
+    backgroundColor: CalculatorColors.operatorButton,
+  },
+  chipText: {
+    color: CalculatorColors.buttonText,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  data: {
+    flex: 1,
+  },
+  dataContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  dataRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  rowNumber: {
+    width: 24,
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 13,
+  },
+  cell: {
+    flex: 1,
+    height: 40,
+    justifyContent: "center",
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: CalculatorColors.numberButton,
+  },
+  activeCell: {
+    borderColor: CalculatorColors.operatorButton,
+  },
+  invalidCell: {
+    borderColor: "#FF453A",
+  },
+  cellText: {
+    color: CalculatorColors.displayText,
+    fontSize: 18,
+    textAlign: "right",
+  },
+  results: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  resultItem: {
+    width: "50%",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingRight: Spacing.lg,
+    paddingVertical: 2,
+  },
+  resultLabel: {
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 14,
+  },
+  resultValue: {
+    flexShrink: 1,
+    color: CalculatorColors.displayText,
+    fontSize: 14,
+  },
+  regressionText: {
+    width: "100%",
+    color: CalculatorColors.displayText,
+    opacity: 0.6,
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
+  keypad: {
+    paddingHorizontal: 12,
+  },
+});
@@ -226,6 +226,10 @@ function setupErrorHandler(app: express.Application) {
 }
 
 (async () => {
+  // One proxy sits in front in deployment; trusting it makes req.ip the
+  // client's own address rather than the proxy's
+  app.set("trust proxy", 1);
+
   setupCors(app);
   setupBodyParsing(app);
   setupRequestLogging(app);
@@ -1,5 +1,12 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "node:http";
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
 
 // ============================================
 // IN-MEMORY MESSAGE STORAGE
@@ -7,6 +14,7 @@ import { createServer, type Server } from "node:http";
 // ============================================
 interface StoredMessage {
   id: string;
+  pairingId: string;
   localId: string | null;
   text: string;
   sender: "A" | "B";
@@ -19,23 +27,122 @@ interface StoredMessage {
 let messages: StoredMessage[] = [];
 let messageIdCounter = 1;
 
-// Typing status - NOT persisted, only held in memory temporarily
-const typingStatus: Record<string, { isTyping: boolean; timestamp: number }> = {
-  A: { isTyping: false, timestamp: 0 },
-  B: { isTyping: false, timestamp: 0 },
-};
+// Typing status per pairing - NOT persisted, only held in memory temporarily
+type TypingStatus = Record<"A" | "B", { isTyping: boolean; timestamp: number }>;
+const typingStatus = new Map<string, TypingStatus>();
 
 // Read receipts tracking - which messages have been read
 const readReceipts = new Map<string, boolean>();
 
+// Duress alerts per pairing - when each side last entered its duress
+// code, kept until the partner acknowledges it
+type DuressAlerts = Record<"A" | "B", number | null>;
+const duressAlerts = new Map<string, DuressAlerts>();
+
+// ============================================
+// PAIRING CODES
+// A code is issued to one device and redeemed by a second one, which
+// locks the two together. Codes expire strictly after 7 minutes.
+// ============================================
+interface PendingCode {
+  code: string;
+  // The issuing device, which becomes role A
+  deviceId: string;
+  // The issuer's device secret, active once the code is redeemed
+  secretHash: string;
+  expiresAt: number;
+  // Client address that asked for it
+  address: string;
+}
+
+interface Pairing {
+  id: string;
+  devices: Record<"A" | "B", string>;
+  createdAt: number;
+}
+
+const PAIRING_CODE_TTL = 7 * 60 * 1000;
+// No leading zero, since the calculator drops one while typing
+const MIN_PAIRING_CODE = 1000;
+const MAX_PAIRING_CODE = 9999;
+
+// Keyed by code
+const pendingCodes = new Map<string, PendingCode>();
+// Keyed by pairing ID
+const pairings = new Map<string, Pairing>();
+
+// ============================================
+// DEVICE CREDENTIALS
+// Each paired device gets a long-lived secret at pairing, which it
+// trades for short-lived access tokens. Only hashes are kept, and
+// revoking a device drops its secret and every token issued to it.
+// ============================================
+interface DeviceCredential {
+  deviceId: string;
+  pairingId: string;
+  role: "A" | "B";
+  secretHash: string;
+  // Set when the partner unpaired, so this device can be told why its
+  // secret stopped working
+  endedAt?: number;
+}
+
+interface AccessToken {
+  deviceId: string;
+  pairingId: string;
+  role: "A" | "B";
+  expiresAt: number;
+}
+
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+
+// Keyed by device ID
+const deviceCredentials = new Map<string, DeviceCredential>();
+// Keyed by token hash
+const accessTokens = new Map<string, AccessToken>();
+
+// ============================================
+// REDEEM THROTTLING
+// Wrong codes from one address earn a doubling wait after the first
+// few, so the 9000 codes can't be walked through while one is live.
+// Device IDs are free to make up, so the address is the key.
+// ============================================
+interface RedeemFailures {
+  count: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+const FREE_REDEEM_FAILURES = 5;
+const REDEEM_LOCKOUT_BASE = 30 * 1000;
+const REDEEM_LOCKOUT_MAX = 60 * 60 * 1000;
+const REDEEM_FAILURES_TTL = 24 * 60 * 60 * 1000;
+
+// Keyed by client address
+const redeemFailures = new Map<string, RedeemFailures>();
+
+// Addresses are cheap in bulk, so wrong codes are also capped
+// server-wide: past this many in a code's lifetime, every redeem gets
+// 429 until the oldest ages out. Live codes are left alone, and guesses
+// spread over many addresses still rarely land.
+const MAX_REDEEM_FAILURES_PER_WINDOW = 100;
+const REDEEM_FAILURE_WINDOW = PAIRING_CODE_TTL;
+
+// When each recent wrong code was tried, from any address
+let recentRedeemFailures: number[] = [];
+
 // ============================================
-// PAIRING & SECURITY CONFIGURATION
-// Static API keys for the two paired users
+// CODE ISSUANCE LIMITS
+// Device IDs are free to make up too, so codes are counted per address:
+// only a few live at once, and only so many an hour. Without this one
+// client could hold every code and leave none for anyone else.
 // ============================================
-const API_KEYS: Record<string, "A" | "B"> = {
-  "calc-user-a-key-2024": "A",
-  "calc-user-b-key-2024": "B",
-};
+const MAX_LIVE_CODES_PER_ADDRESS = 3;
+const MAX_CODES_PER_WINDOW = 10;
+const CODE_ISSUE_WINDOW = 60 * 60 * 1000;
+
+// Keyed by client address: when each recent code was issued
+const codeIssues = new Map<string, number[]>();
 
 // ============================================
 // HELPER FUNCTIONS
@@ -49,23 +156,181 @@ function generateMessageId(): string {
   return `msg_${Date.now()}_${messageIdCounter++}`;
 }
 
+function getTypingStatus(pairingId: string): TypingStatus {
+  let status = typingStatus.get(pairingId);
+  if (!status) {
+    status = {
+      A: { isTyping: false, timestamp: 0 },
+      B: { isTyping: false, timestamp: 0 },
+    };
+    typingStatus.set(pairingId, status);
+  }
+  return status;
+}
+
+function getDuressAlerts(pairingId: string): DuressAlerts {
+  let alerts = duressAlerts.get(pairingId);
+  if (!alerts) {
+    alerts = { A: null, B: null };
+    duressAlerts.set(pairingId, alerts);
+  }
+  return alerts;
+}
+
 function cleanupTypingStatus(): void {
   const now = Date.now();
   const TYPING_TIMEOUT = 3000;
 
-  for (const role of ["A", "B"] as const) {
-    if (
-      typingStatus[role].isTyping &&
-      now - typingStatus[role].timestamp > TYPING_TIMEOUT
-    ) {
-      typingStatus[role].isTyping = false;
+  for (const status of typingStatus.values()) {
+    for (const role of ["A", "B"] as const) {
+      if (
+        status[role].isTyping &&
+        now - status[role].timestamp > TYPING_TIMEOUT
+      ) {
+        status[role].isTyping = false;
+      }
+    }
+  }
+}
+
+function cleanupPendingCodes(): void {
+  const now = Date.now();
+  for (const [code, pending] of pendingCodes) {
+    if (now >= pending.expiresAt) {
+      pendingCodes.delete(code);
     }
   }
 }
 
+function cleanupCodeIssues(): void {
+  const since = Date.now() - CODE_ISSUE_WINDOW;
+  for (const [address, issuedAt] of codeIssues) {
+    const recent = issuedAt.filter((time) => time > since);
+    if (recent.length > 0) {
+      codeIssues.set(address, recent);
+    } else {
+      codeIssues.delete(address);
+    }
+  }
+}
+
+function countLiveCodes(address: string, exceptDeviceId: string): number {
+  let count = 0;
+  for (const pending of pendingCodes.values()) {
+    if (pending.address === address && pending.deviceId !== exceptDeviceId) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function findPairingByDevice(
+  deviceId: string,
+): { pairing: Pairing; role: "A" | "B" } | null {
+  for (const pairing of pairings.values()) {
+    if (pairing.devices.A === deviceId) return { pairing, role: "A" };
+    if (pairing.devices.B === deviceId) return { pairing, role: "B" };
+  }
+  return null;
+}
+
+function findCodeByDevice(deviceId: string): PendingCode | null {
+  for (const pending of pendingCodes.values()) {
+    if (pending.deviceId === deviceId) return pending;
+  }
+  return null;
+}
+
+function generateSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function secretMatches(secret: string, secretHash: string): boolean {
+  const actual = Buffer.from(hashSecret(secret), "hex");
+  const expected = Buffer.from(secretHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function revokeAccessTokens(deviceId: string): void {
+  for (const [tokenHash, token] of accessTokens) {
+    if (token.deviceId === deviceId) {
+      accessTokens.delete(tokenHash);
+    }
+  }
+}
+
+function revokeDevice(deviceId: string): void {
+  deviceCredentials.delete(deviceId);
+  revokeAccessTokens(deviceId);
+}
+
+// Drops a pairing and everything said in it
+function deletePairing(pairingId: string): void {
+  pairings.delete(pairingId);
+  messages = messages.filter((msg) => msg.pairingId !== pairingId);
+  const messageIds = new Set(messages.map((msg) => msg.id));
+  for (const id of readReceipts.keys()) {
+    if (!messageIds.has(id)) {
+      readReceipts.delete(id);
+    }
+  }
+  typingStatus.delete(pairingId);
+  duressAlerts.delete(pairingId);
+}
+
+function cleanupAccessTokens(): void {
+  const now = Date.now();
+  for (const [tokenHash, token] of accessTokens) {
+    if (now >= token.expiresAt) {
+      accessTokens.delete(tokenHash);
+    }
+  }
+}
+
+function cleanupRedeemFailures(): void {
+  const now = Date.now();
+  for (const [address, failures] of redeemFailures) {
+    if (now - failures.lastFailureAt > REDEEM_FAILURES_TTL) {
+      redeemFailures.delete(address);
+    }
+  }
+}
+
+function recordRedeemFailure(address: string): void {
+  const now = Date.now();
+  const count = (redeemFailures.get(address)?.count ?? 0) + 1;
+  const excess = count - FREE_REDEEM_FAILURES;
+  const lockout =
+    excess > 0
+      ? Math.min(REDEEM_LOCKOUT_BASE * 2 ** (excess - 1), REDEEM_LOCKOUT_MAX)
+      : 0;
+  redeemFailures.set(address, {
+    count,
+    lastFailureAt: now,
+    lockedUntil: now + lockout,
+  });
+}
+
+function cleanupRecentRedeemFailures(): void {
+  const since = Date.now() - REDEEM_FAILURE_WINDOW;
+  recentRedeemFailures = recentRedeemFailures.filter((time) => time > since);
+}
+
+function isValidDeviceId(deviceId: unknown): deviceId is string {
+  return (
+    typeof deviceId === "string" &&
+    deviceId.length >= 16 &&
+    deviceId.length <= 128
+  );
+}
+
 // ============================================
 // AUTHORIZATION MIDDLEWARE
-// Validates API key and extracts user role
+// Validates an issued access token and extracts the pairing and role
 // ============================================
 function authMiddleware(
   req: Request,
@@ -81,15 +346,19 @@ function authMiddleware(
     return;
   }
 
-  const apiKey = authHeader.slice(7);
-  const userRole = API_KEYS[apiKey];
+  cleanupAccessTokens();
 
-  if (!userRole) {
-    res.status(403).json({ error: "Invalid API key" });
+  // Unknown, expired and revoked tokens all get 401, so the client
+  // knows to fetch a new one with its device secret
+  const token = accessTokens.get(hashSecret(authHeader.slice(7)));
+  if (!token) {
+    res.status(401).json({ error: "Invalid or expired access token" });
     return;
   }
 
-  (req as any).userRole = userRole;
+  (req as any).userRole = token.role;
+  (req as any).pairingId = token.pairingId;
+  (req as any).deviceId = token.deviceId;
   next();
 }
 
@@ -104,6 +373,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ status: "ok", timestamp: Date.now() });
   });
 
+  // ============================================
+  // POST /api/pairing/code - Issue a pairing code to this device
+  // Body: { deviceId: string }
+  // Returns: { code, expiresAt, deviceSecret }; replaces the device's
+  // previous code. The secret only works once the code is redeemed.
+  // ============================================
+  app.post("/api/pairing/code", (req: Request, res: Response) => {
+    const { deviceId } = req.body;
+
+    if (!isValidDeviceId(deviceId)) {
+      res.status(400).json({ error: "A valid deviceId is required" });
+      return;
+    }
+
+    if (findPairingByDevice(deviceId)) {
+      res.status(409).json({ error: "Device is already paired" });
+      return;
+    }
+
+    cleanupPendingCodes();
+    cleanupCodeIssues();
+
+    // A device's own previous code is replaced, so it doesn't count
+    const address = req.ip ?? "unknown";
+    if (countLiveCodes(address, deviceId) >= MAX_LIVE_CODES_PER_ADDRESS) {
+      res.status(429).json({ error: "Too many live pairing codes" });
+      return;
+    }
+    const issuedAt = codeIssues.get(address) ?? [];
+    if (issuedAt.length >= MAX_CODES_PER_WINDOW) {
+      const retryAfter = Math.ceil(
+        (issuedAt[0] + CODE_ISSUE_WINDOW - Date.now()) / 1000,
+      );
+      res.setHeader("Retry-After", String(retryAfter));
+      res.status(429).json({ error: "Too many pairing codes requested" });
+      return;
+    }
+
+    const previous = findCodeByDevice(deviceId);
+    if (previous) {
+      pendingCodes.delete(previous.code);
+    }
+
+    if (pendingCodes.size > MAX_PAIRING_CODE - MIN_PAIRING_CODE) {
+      res.status(503).json({ error: "No pairing codes available" });
+      return;
+    }
+
+    let code: string;
+    do {
+      code = String(randomInt(MIN_PAIRING_CODE, MAX_PAIRING_CODE + 1));
+    } while (pendingCodes.has(code));
+
+    const deviceSecret = generateSecret();
+    const pending: PendingCode = {
+      code,
+      deviceId,
+      secretHash: hashSecret(deviceSecret),
+      expiresAt: Date.now() + PAIRING_CODE_TTL,
+      address,
+    };
+    pendingCodes.set(code, pending);
+    codeIssues.set(address, [...issuedAt, Date.now()]);
+
+    console.log("[PAIRING] Code issued, expires in 7 minutes");
+    res.status(201).json({ code, expiresAt: pending.expiresAt, deviceSecret });
+  });
+
+  // ============================================
+  // POST /api/pairing/redeem - Pair with the device that issued a code
+  // Body: { deviceId: string, code: string }
+  // Returns: { pairingId, role: "B", deviceSecret }
+  // ============================================
+  app.post("/api/pairing/redeem", (req: Request, res: Response) => {
+    const { deviceId, code } = req.body;
+
+    if (!isValidDeviceId(deviceId) || typeof code !== "string") {
+      res.status(400).json({ error: "deviceId and code are required" });
+      return;
+    }
+
+    if (findPairingByDevice(deviceId)) {
+      res.status(409).json({ error: "Device is already paired" });
+      return;
+    }
+
+    cleanupRedeemFailures();
+
+    // Locked out: not even the right code is looked at
+    const address = req.ip ?? "unknown";
+    const failures = redeemFailures.get(address);
+    if (failures && Date.now() < failures.lockedUntil) {
+      const retryAfter = Math.ceil((failures.lockedUntil - Date.now()) / 1000);
+      res.setHeader("Retry-After", String(retryAfter));
+      res.status(429).json({ error: "Too many wrong codes" });
+      return;
+    }
+
+    cleanupRecentRedeemFailures();
+    if (recentRedeemFailures.length >= MAX_REDEEM_FAILURES_PER_WINDOW) {
+      const retryAfter = Math.ceil(
+        (recentRedeemFailures[0] + REDEEM_FAILURE_WINDOW - Date.now()) / 1000,
+      );
+      res.setHeader("Retry-After", String(retryAfter));
+      res.status(429).json({ error: "Too many wrong codes server-wide" });
+      return;
+    }
+
+    cleanupPendingCodes();
+
+    const pending = pendingCodes.get(code);
+    // A device can't pair with itself; the code stays valid for the partner
+    if (!pending || pending.deviceId === deviceId) {
+      recordRedeemFailure(address);
+      recentRedeemFailures.push(Date.now());
+      res.status(404).json({ error: "Unknown or expired code" });
+      return;
+    }
+
+    redeemFailures.delete(address);
+    pendingCodes.delete(code);
+    const pairing: Pairing = {
+      id: randomUUID(),
+      devices: { A: pending.deviceId, B: deviceId },
+      createdAt: Date.now(),
+    };
+    pairings.set(pairing.id, pairing);
+
+    deviceCredentials.set(pending.deviceId, {
+      deviceId: pending.deviceId,
+      pairingId: pairing.id,
+      role: "A",
+      secretHash: pending.secretHash,
+    });
+    const deviceSecret = generateSecret();
+    deviceCredentials.set(deviceId, {
+      deviceId,
+      pairingId: pairing.id,
+      role: "B",
+      secretHash: hashSecret(deviceSecret),
+    });
+
+    console.log(`[PAIRING] Devices paired as ${pairing.id}`);
+    res.status(201).json({ pairingId: pairing.id, role: "B", deviceSecret });
+  });
+
+  // ============================================
+  // GET /api/pairing/status - Whether this device's code was redeemed
+  // Query: ?deviceId=string
+  // Returns: { status: "paired", pairingId, role }
+  //        | { status: "pending", expiresAt } | { status: "none" }
+  // ============================================
+  app.get("/api/pairing/status", (req: Request, res: Response) => {
+    const { deviceId } = req.query;
+
+    if (!isValidDeviceId(deviceId)) {
+      res.status(400).json({ error: "A valid deviceId is required" });
+      return;
+    }
+
+    const paired = findPairingByDevice(deviceId);
+    if (paired) {
+      res.json({
+        status: "paired",
+        pairingId: paired.pairing.id,
+        role: paired.role,
+      });
+      return;
+    }
+
+    cleanupPendingCodes();
+
+    const pending = findCodeByDevice(deviceId);
+    if (pending) {
+      res.json({ status: "pending", expiresAt: pending.expiresAt });
+      return;
+    }
+
+    res.json({ status: "none" });
+  });
+
+  // ============================================
+  // POST /api/pairing/unpair - End this device's pairing
+  // Deletes the conversation and this device's credential. The
+  // partner's tokens stop working and its secret then gets 410.
+  // ============================================
+  app.post(
+    "/api/pairing/unpair",
+    authMiddleware,
+    (req: Request, res: Response) => {
+      const userRole = (req as any).userRole as "A" | "B";
+      const pairingId = (req as any).pairingId as string;
+      const deviceId = (req as any).deviceId as string;
+
+      const pairing = pairings.get(pairingId);
+      if (pairing) {
+        const partnerId = pairing.devices[getPartnerRole(userRole)];
+        const partner = deviceCredentials.get(partnerId);
+        if (partner && partner.pairingId === pairingId) {
+          partner.endedAt = Date.now();
+        }
+        revokeAccessTokens(partnerId);
+      }
+
+      deletePairing(pairingId);
+      revokeDevice(deviceId);
+
+      console.log(`[PAIRING] ${pairingId} unpaired by ${userRole}`);
+      res.json({ success: true });
+    },
+  );
+
+  // ============================================
+  // POST /api/auth/token - Trade the device secret for an access token
+  // Body: { deviceId: string, deviceSecret: string }
+  // Returns: { accessToken, expiresAt }; tokens last 15 minutes.
+  // 410 once the partner has unpaired
+  // ============================================
+  app.post("/api/auth/token", (req: Request, res: Response) => {
+    const { deviceId, deviceSecret } = req.body;
+
+    if (!isValidDeviceId(deviceId) || typeof deviceSecret !== "string") {
+      res.status(400).json({ error: "deviceId and deviceSecret are required" });
+      return;
+    }
+
+    const credential = deviceCredentials.get(deviceId);
+    if (!credential || !secretMatches(deviceSecret, credential.secretHash)) {
+      res.status(401).json({ error: "Unknown or revoked device" });
+      return;
+    }
+
+    if (credential.endedAt !== undefined) {
+      res.status(410).json({ error: "The partner ended this pairing" });
+      return;
+    }
+
+    cleanupAccessTokens();
+
+    const accessToken = generateSecret();
+    const expiresAt = Date.now() + ACCESS_TOKEN_TTL;
+    accessTokens.set(hashSecret(accessToken), {
+      deviceId,
+      pairingId: credential.pairingId,
+      role: credential.role,
+      expiresAt,
+    });
+
+    res.json({ accessToken, expiresAt });
+  });
+
   // ============================================
   // POST /api/send - Send a new message
   // Body: { text: string, localId?: string }
@@ -112,6 +632,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/send", authMiddleware, (req: Request, res: Response) => {
     const { text, localId } = req.body;
     const sender = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
 
     if (!text || typeof text !== "string" || text.trim().length === 0) {
       res.status(400).json({ error: "Message text is required" });
@@ -125,6 +646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     const message: StoredMessage = {
       id: generateMessageId(),
+      pairingId,
       localId: localId || null,
       text: text.trim(),
       sender: sender,
@@ -158,11 +680,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================
   app.get("/api/poll", authMiddleware, (req: Request, res: Response) => {
     const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
     const since = parseInt(req.query.since as string) || 0;
 
     cleanupTypingStatus();
 
-    const userMessages = messages
+    const conversation = messages.filter((msg) => msg.pairingId === pairingId);
+
+    const userMessages = conversation
       .filter((msg) => msg.recipient === userRole && msg.timestamp > since)
       .map((msg) => {
         msg.delivered = true;
@@ -175,7 +700,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
 
-    const sentMessages = messages
+    const sentMessages = conversation
       .filter((msg) => msg.sender === userRole && msg.timestamp > since)
       .map((msg) => ({
         id: msg.id,
@@ -198,9 +723,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================
   app.get("/api/messages", authMiddleware, (req: Request, res: Response) => {
     const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
 
     const conversationMessages = messages
-      .filter((msg) => msg.sender === userRole || msg.recipient === userRole)
+      .filter(
+        (msg) =>
+          msg.pairingId === pairingId &&
+          (msg.sender === userRole || msg.recipient === userRole),
+      )
       .map((msg) => ({
         id: msg.id,
         text: msg.text,
@@ -221,13 +751,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/typing", authMiddleware, (req: Request, res: Response) => {
     const { isTyping } = req.body;
     const sender = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
 
     if (typeof isTyping !== "boolean") {
       res.status(400).json({ error: "isTyping must be a boolean" });
       return;
     }
 
-    typingStatus[sender] = {
+    getTypingStatus(pairingId)[sender] = {
       isTyping: isTyping,
       timestamp: Date.now(),
     };
@@ -241,12 +772,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================
   app.get("/api/typing", authMiddleware, (req: Request, res: Response) => {
     const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
     const partnerRole = getPartnerRole(userRole);
 
     cleanupTypingStatus();
 
     res.json({
-      isTyping: typingStatus[partnerRole].isTyping,
+      isTyping: getTypingStatus(pairingId)[partnerRole].isTyping,
     });
   });
 
@@ -258,6 +790,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/read", authMiddleware, (req: Request, res: Response) => {
     const { messageIds } = req.body;
     const reader = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
 
     if (!Array.isArray(messageIds)) {
       res.status(400).json({ error: "messageIds must be an array" });
@@ -267,7 +800,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     let updatedCount = 0;
 
     for (const msgId of messageIds) {
-      const message = messages.find((m) => m.id === msgId);
+      const message = messages.find(
+        (m) => m.id === msgId && m.pairingId === pairingId,
+      );
 
       if (message && message.recipient === reader && !readReceipts.get(msgId)) {
         readReceipts.set(msgId, true);
@@ -289,20 +824,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     authMiddleware,
     (req: Request, res: Response) => {
       const { messageId } = req.params;
-      const isRead = readReceipts.get(messageId as string) || false;
+      const pairingId = (req as any).pairingId as string;
+      const message = messages.find(
+        (m) => m.id === messageId && m.pairingId === pairingId,
+      );
+      const isRead = message ? readReceipts.get(message.id) || false : false;
       res.json({ read: isRead });
     }
   );
 
+  // ============================================
+  // POST /api/duress - Tell the partner this device is under duress
+  // Sent when the duress code is entered, before any local wipe
+  // ============================================
+  app.post("/api/duress", authMiddleware, (req: Request, res: Response) => {
+    const sender = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
+
+    getDuressAlerts(pairingId)[sender] = Date.now();
+
+    console.log(`[DURESS] Alert raised by ${sender}`);
+    res.json({ success: true });
+  });
+
+  // ============================================
+  // GET /api/duress - Whether the partner has raised a duress alert
+  // Returns: { raisedAt: number | null }
+  // ============================================
+  app.get("/api/duress", authMiddleware, (req: Request, res: Response) => {
+    const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
+    const partnerRole = getPartnerRole(userRole);
+
+    res.json({ raisedAt: getDuressAlerts(pairingId)[partnerRole] });
+  });
+
+  // ============================================
+  // DELETE /api/duress - Acknowledge the partner's duress alert
+  // ============================================
+  app.delete("/api/duress", authMiddleware, (req: Request, res: Response) => {
+    const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
+
+    getDuressAlerts(pairingId)[getPartnerRole(userRole)] = null;
+
+    res.json({ success: true });
+  });
+
   // ============================================
   // DELETE /api/messages - Clear all messages permanently
   // ============================================
   app.delete("/api/messages", authMiddleware, (req: Request, res: Response) => {
     const userRole = (req as any).userRole as "A" | "B";
+    const pairingId = (req as any).pairingId as string;
     
     // Filter out messages where the user is either sender or recipient
     messages = messages.filter(
-      (msg) => msg.sender !== userRole && msg.recipient !== userRole
+      (msg) =>
+        msg.pairingId !== pairingId ||
+        (msg.sender !== userRole && msg.recipient !== userRole)
     );
     
     // Cleanup read receipts for deleted messages
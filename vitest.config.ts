@@ -0,0 +1,15 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the pure calculator modules; screens aren't covered
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["client/**/*.test.ts"],
+  },
+});